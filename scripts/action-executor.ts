@@ -0,0 +1,546 @@
+/**
+ * Action Executor
+ *
+ * Reference runtime for manifest actions: builds the HTTP request for an
+ * action from the adapter's `base_url`, the action's `method`, `endpoint`
+ * and `parameterLocations`, authenticates it per `authentication.type` and
+ * returns the provider's response or a normalized error. Encompass runs
+ * actions the same way; this is the executable definition of what a manifest
+ * means, so manifests can be checked before they ship.
+ *
+ * Authentication:
+ * - basic: the first two required credential fields as user and password
+ *   (api_id/api_token for Aircall, account_sid/auth_token for Twilio)
+ * - api_key: sent as `authentication.apiKey` says; adapters without it must
+ *   declare `authentication.signing` and send their key in `headers`
+ * - bearer, jwt: `Authorization: Bearer` with the token field
+ * - oauth2: `Authorization: Bearer` with the `access_token` credential; the
+ *   OAuth flow itself is the platform's job
+ * - `authentication.headers` are added for every type (Xero's tenant id)
+ * - `authentication.signing` adds an HMAC of each request (SumSub); the
+ *   signing secret itself is never sent
+ *
+ * Bodies are JSON unless the action's contentType says form-encoded
+ * (Stripe, with nested objects in bracket notation) or multipart.
+ *
+ * Calls are spaced out and retried per the adapter's `rateLimit` policy
+ * (see rate-limit.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/action-executor.ts <slug> <action> [config-json] [--credentials <json|file>] [--base-url <url>] [--dry-run] [--no-rate-limit]
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import type { ValidateFunction } from 'ajv';
+import type { ActionDefinition } from './types';
+import { requestSignature, secretField, type AuthConfig, type RequestSigning } from './auth-config';
+import { createManifestLoader, type ManifestLoader } from './manifest-loader';
+import { callWithPolicy, createRateLimiter, type RateLimitClock, type RateLimitPolicy, type RateLimiter } from './rate-limit';
+
+/**
+ * Credential values keyed by `authentication.fields` name, plus
+ * `access_token` for OAuth2 adapters
+ */
+export type Credentials = Record<string, string | undefined>;
+
+export interface ActionRequest {
+  adapter: string;
+  action: string;
+  config: Record<string, unknown>;
+  credentials: Credentials;
+}
+
+export type ActionErrorCode =
+  | 'unknown_adapter'
+  | 'unknown_action'
+  | 'not_executable'
+  | 'invalid_config'
+  | 'missing_credentials'
+  | 'unsupported_auth'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'provider_error'
+  | 'network_error'
+  | 'timeout';
+
+export interface ActionError {
+  code: ActionErrorCode;
+  message: string;
+  /** HTTP status, when the provider answered */
+  status?: number;
+  /** Whether the same request may succeed later */
+  retryable: boolean;
+  /** Seconds to wait, from Retry-After */
+  retryAfter?: number;
+  /** The provider's response body */
+  details?: unknown;
+  /** Attempts made, when the call was retried */
+  attempts?: number;
+}
+
+export type ActionResult<T = unknown> =
+  | { ok: true; status: number; headers: Record<string, string>; data: T }
+  | { ok: false; error: ActionError };
+
+/**
+ * An HTTP request ready to send
+ */
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | FormData | Uint8Array<ArrayBuffer>;
+}
+
+export interface ExecutorOptions {
+  /** Registry root holding adapters/ (default: cwd) */
+  registryDir?: string;
+  /** Send requests here instead of the adapter's base_url, e.g. a local stand-in */
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  /** Request timeout in milliseconds (default: 30s) */
+  timeoutMs?: number;
+  /** Enforce each adapter's rateLimit policy and retry per it (default: true) */
+  rateLimit?: boolean;
+  /** Clock for the limiter and backoff */
+  clock?: RateLimitClock;
+}
+
+export interface ActionExecutor {
+  execute<T = unknown>(request: ActionRequest): Promise<ActionResult<T>>;
+  /** The request execute() would send, without sending it */
+  prepare(request: ActionRequest): Promise<HttpRequest | ActionError>;
+  /** An adapter's action definition, e.g. for its pagination block; undefined if either is unknown */
+  action(adapter: string, id: string): Promise<ActionDefinition | undefined>;
+}
+
+interface AdapterJson {
+  base_url?: string;
+  authentication: AuthConfig;
+  rateLimit?: RateLimitPolicy;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const STATUS_CODES: Array<[number, ActionErrorCode]> = [
+  [401, 'unauthorized'],
+  [403, 'forbidden'],
+  [404, 'not_found'],
+  [409, 'conflict'],
+  [429, 'rate_limited'],
+];
+
+function failure(code: ActionErrorCode, message: string, extra: Partial<ActionError> = {}): ActionError {
+  return { code, message, retryable: false, ...extra };
+}
+
+function isActionError<T extends object>(value: T | ActionError): value is ActionError {
+  return 'code' in value;
+}
+
+/**
+ * Form fields for a value, with nested objects and arrays in bracket
+ * notation: `metadata[order_id]=1`, `items[0][price]=p_1`
+ */
+function formEntries(key: string, value: unknown): Array<[string, string]> {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.flatMap((item, index) => formEntries(`${key}[${index}]`, item));
+  if (typeof value === 'object') {
+    return Object.entries(value).flatMap(([name, item]) => formEntries(`${key}[${name}]`, item));
+  }
+  return [[key, String(value)]];
+}
+
+/**
+ * Query string entries: arrays repeat the key, objects use bracket notation
+ */
+function queryEntries(key: string, value: unknown): Array<[string, string]> {
+  if (Array.isArray(value)) return value.flatMap(item => queryEntries(key, item));
+  return formEntries(key, value);
+}
+
+function basicAuth(user: string, password: string): string {
+  return `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+}
+
+/**
+ * Add the adapter's authentication to a request
+ */
+function authenticate(auth: AuthConfig, credentials: Credentials, headers: Record<string, string>, query: URLSearchParams): ActionError | undefined {
+  const credential = (name: string | undefined, label = 'secret'): string | ActionError =>
+    name && credentials[name] ? credentials[name]! : failure('missing_credentials', `Missing credential "${name ?? label}"`);
+
+  if (auth.signing) {
+    const secret = credential(auth.signing.field);
+    if (typeof secret !== 'string') return secret;
+  }
+
+  switch (auth.type) {
+    case 'basic': {
+      const [userField, passwordField] = auth.fields.filter(field => field.required).map(field => field.name);
+      const user = credential(userField, 'user');
+      if (typeof user !== 'string') return user;
+      const password = credential(passwordField, 'password');
+      if (typeof password !== 'string') return password;
+      headers.authorization = basicAuth(user, password);
+      break;
+    }
+    case 'api_key': {
+      const placement = auth.apiKey;
+      if (!placement) {
+        // The key goes in authentication.headers and the signature proves the secret
+        if (auth.signing) break;
+        return failure('unsupported_auth', 'api_key authentication needs an apiKey placement or request signing');
+      }
+      const field = placement.field || secretField(auth, ['api_key']);
+      if (field === auth.signing?.field) return failure('unsupported_auth', `Credential "${field}" only signs requests and is never sent`);
+      const key = credential(field);
+      if (typeof key !== 'string') return key;
+      const value = `${placement.prefix || ''}${key}`;
+      if (placement.in === 'query') query.set(placement.name, value);
+      else headers[placement.name.toLowerCase()] = value;
+      break;
+    }
+    case 'bearer':
+    case 'jwt': {
+      const token = credential(secretField(auth, ['api_key', 'token']));
+      if (typeof token !== 'string') return token;
+      headers.authorization = `Bearer ${token}`;
+      break;
+    }
+    case 'oauth2': {
+      const token = credential('access_token');
+      if (typeof token !== 'string') return token;
+      headers.authorization = `Bearer ${token}`;
+      break;
+    }
+    default:
+      return failure('unsupported_auth', `Authentication type "${auth.type}" needs a provider-specific executor`);
+  }
+
+  for (const [name, template] of Object.entries(auth.headers || {})) {
+    const missing = [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1]).find(field => !credentials[field]);
+    if (missing) return failure('missing_credentials', `Missing credential "${missing}" for the ${name} header`);
+    headers[name.toLowerCase()] = template.replace(/\{(\w+)\}/g, (_, field: string) => credentials[field]!);
+  }
+  return undefined;
+}
+
+/**
+ * Build the HTTP request for an action. Path params missing from the config
+ * are taken from credentials of the same name (DocuSign's account_id).
+ */
+export function buildHttpRequest(
+  adapter: AdapterJson,
+  action: ActionDefinition,
+  config: Record<string, unknown>,
+  credentials: Credentials,
+  baseUrl = adapter.base_url
+): HttpRequest | ActionError {
+  if (!action.method || !action.endpoint) {
+    return failure('not_executable', `Action "${action.id}" has no method/endpoint`);
+  }
+  if (!baseUrl && !/^https?:\/\//.test(action.endpoint)) {
+    return failure('not_executable', 'Adapter has no base_url');
+  }
+
+  const locations = action.parameterLocations || {};
+  const headers: Record<string, string> = { accept: 'application/json' };
+  const query = new URLSearchParams();
+  const body: Record<string, unknown> = {};
+
+  let missingPathParam: string | undefined;
+  const pathParams = new Set<string>();
+  const path = action.endpoint.replace(/\{([^}]+)\}|:(\w+)/g, (match, braced: string, colon: string) => {
+    const name = braced || colon;
+    pathParams.add(name);
+    const value = config[name] ?? credentials[name];
+    if (value === undefined || value === '') {
+      missingPathParam ??= name;
+      return match;
+    }
+    return encodeURIComponent(String(value));
+  });
+  if (missingPathParam) return failure('invalid_config', `Missing path parameter "${missingPathParam}"`);
+
+  const hasBody = !['GET', 'DELETE'].includes(action.method);
+  for (const [name, value] of Object.entries(config)) {
+    if (value === undefined || pathParams.has(name)) continue;
+    const location = locations[name] || (hasBody ? 'body' : 'query');
+    if (location === 'query') queryEntries(name, value).forEach(([key, item]) => query.append(key, item));
+    else if (location === 'header') headers[name.toLowerCase()] = String(value);
+    else if (location === 'body') body[name] = value;
+  }
+
+  const authError = authenticate(adapter.authentication, credentials, headers, query);
+  if (authError) return authError;
+
+  const url = /^https?:\/\//.test(action.endpoint) ? new URL(path) : new URL(`${baseUrl!.replace(/\/$/, '')}${path}`);
+  query.forEach((value, key) => url.searchParams.append(key, value));
+
+  const request: HttpRequest = { method: action.method, url: url.toString(), headers };
+  if (!hasBody || (Object.keys(body).length === 0 && !action.contentType)) return request;
+
+  const contentType = action.contentType || 'application/json';
+  if (contentType === 'application/x-www-form-urlencoded') {
+    headers['content-type'] = contentType;
+    request.body = new URLSearchParams(Object.entries(body).flatMap(([key, value]) => formEntries(key, value))).toString();
+  } else if (contentType === 'multipart/form-data') {
+    // fetch sets the multipart boundary itself
+    const form = new FormData();
+    for (const [key, value] of Object.entries(body).flatMap(([name, item]) => formEntries(name, item))) {
+      form.append(key, value);
+    }
+    request.body = form;
+  } else {
+    headers['content-type'] = contentType;
+    request.body = JSON.stringify(body);
+  }
+  return request;
+}
+
+/**
+ * Add the signature headers to a request built by buildHttpRequest.
+ * Multipart bodies are encoded first so the signature covers the bytes sent.
+ */
+export async function signRequest(
+  request: HttpRequest,
+  signing: RequestSigning,
+  secret: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<HttpRequest> {
+  const headers = { ...request.headers };
+  let body = request.body;
+  if (body instanceof FormData) {
+    const encoded = new Response(body);
+    headers['content-type'] = encoded.headers.get('content-type')!;
+    body = new Uint8Array(await encoded.arrayBuffer());
+  }
+
+  const url = new URL(request.url);
+  const timestamp = String(now);
+  headers[signing.signatureHeader.toLowerCase()] = requestSignature(signing, secret, {
+    timestamp,
+    method: request.method,
+    path: `${url.pathname}${url.search}`,
+    body,
+  });
+  if (signing.timestampHeader) headers[signing.timestampHeader.toLowerCase()] = timestamp;
+  return { ...request, headers, body };
+}
+
+/**
+ * The provider's own error message from common error body shapes
+ */
+function providerMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') return body.slice(0, 200) || undefined;
+  if (!body || typeof body !== 'object') return undefined;
+  const record = body as Record<string, any>;
+  const candidates = [
+    record.error?.message,
+    record.errors?.[0]?.message,
+    record.message,
+    record.Message,
+    record.Detail,
+    record.error_description,
+    typeof record.error === 'string' ? record.error : undefined,
+  ];
+  return candidates.find(candidate => typeof candidate === 'string' && candidate.length > 0);
+}
+
+/**
+ * Seconds to wait from Retry-After (seconds or an HTTP date), else from a
+ * header holding the Unix time the limit resets
+ */
+function retryAfterSeconds(headers: Headers, resetHeader: string | undefined): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) return Number(retryAfter) || Math.max(0, Math.ceil((Date.parse(retryAfter) - Date.now()) / 1000));
+  const reset = resetHeader ? Number(headers.get(resetHeader)) : NaN;
+  return reset > 0 ? Math.max(0, Math.ceil(reset - Date.now() / 1000)) : undefined;
+}
+
+/**
+ * Normalize a non-2xx response
+ */
+function responseError(status: number, headers: Headers, body: unknown, resetHeader?: string): ActionError {
+  const code = STATUS_CODES.find(([candidate]) => candidate === status)?.[1]
+    || (status >= 500 ? 'provider_error' : 'invalid_request');
+  const retryAfter = retryAfterSeconds(headers, resetHeader);
+
+  return {
+    code,
+    message: providerMessage(body) || `Provider responded ${status}`,
+    status,
+    retryable: code === 'rate_limited' || code === 'provider_error',
+    ...(retryAfter !== undefined && !Number.isNaN(retryAfter) ? { retryAfter } : {}),
+    details: body,
+  };
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+  if (!/json/i.test(response.headers.get('content-type') || '')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Create an executor over the registry's adapters
+ */
+export function createActionExecutor(options: ExecutorOptions = {}): ActionExecutor {
+  const registryDir = resolve(options.registryDir || '.');
+  const fetchImpl = options.fetch || fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const adapters = new Map<string, { adapterJson: AdapterJson; loader: ManifestLoader; limiter: RateLimiter }>();
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validators = new Map<string, ValidateFunction>();
+
+  function adapter(slug: string) {
+    if (!adapters.has(slug)) {
+      const adapterDir = join(registryDir, 'adapters', slug);
+      if (!existsSync(join(adapterDir, 'adapter.json'))) return undefined;
+      const adapterJson: AdapterJson = JSON.parse(readFileSync(join(adapterDir, 'adapter.json'), 'utf8'));
+      adapters.set(slug, {
+        adapterJson,
+        loader: createManifestLoader(adapterDir),
+        limiter: createRateLimiter(options.rateLimit === false ? {} : adapterJson.rateLimit, options.clock),
+      });
+    }
+    return adapters.get(slug);
+  }
+
+  async function prepareAction(request: ActionRequest): Promise<{ action: ActionDefinition; http: HttpRequest } | ActionError> {
+    const loaded = adapter(request.adapter);
+    if (!loaded) return failure('unknown_adapter', `There is no adapter "${request.adapter}"`);
+    const { adapterJson, loader } = loaded;
+    const action = await loader.action(request.action);
+    if (!action) return failure('unknown_action', `${request.adapter} has no action "${request.action}"`);
+
+    const key = `${request.adapter}:${action.id}`;
+    if (!validators.has(key)) validators.set(key, ajv.compile(action.configSchema));
+    const validate = validators.get(key)!;
+    if (!validate(request.config)) {
+      const errors = (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+      return failure('invalid_config', errors.join('; '), { details: validate.errors });
+    }
+
+    const http = buildHttpRequest(adapterJson, action, request.config, request.credentials, options.baseUrl);
+    return isActionError(http) ? http : { action, http };
+  }
+
+  // Signed per attempt so retries carry a fresh timestamp
+  async function sign(request: ActionRequest, http: HttpRequest): Promise<HttpRequest> {
+    const signing = adapter(request.adapter)!.adapterJson.authentication.signing;
+    return signing ? signRequest(http, signing, request.credentials[signing.field]!) : http;
+  }
+
+  async function send<T>(prepared: HttpRequest, resetHeader: string | undefined): Promise<ActionResult<T>> {
+    let response: Response;
+    try {
+      response = await fetchImpl(prepared.url, {
+        method: prepared.method,
+        headers: prepared.headers,
+        body: prepared.body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const timedOut = (error as Error).name === 'TimeoutError';
+      // fetch reports "fetch failed"; the cause says why (ECONNREFUSED, DNS)
+      const cause = (error as { cause?: Error }).cause?.message || (error as Error).message;
+      return {
+        ok: false,
+        error: failure(timedOut ? 'timeout' : 'network_error', timedOut ? `No response after ${timeoutMs}ms` : cause, { retryable: true }),
+      };
+    }
+
+    const body = await readBody(response);
+    if (!response.ok) return { ok: false, error: responseError(response.status, response.headers, body, resetHeader) };
+    return {
+      ok: true,
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      data: body as T,
+    };
+  }
+
+  return {
+    action: async (slug, id) => adapter(slug)?.loader.action(id),
+    async prepare(request) {
+      const prepared = await prepareAction(request);
+      return isActionError(prepared) ? prepared : sign(request, prepared.http);
+    },
+    async execute<T>(request: ActionRequest): Promise<ActionResult<T>> {
+      const prepared = await prepareAction(request);
+      if (isActionError(prepared)) return { ok: false, error: prepared };
+
+      const { adapterJson, limiter } = adapter(request.adapter)!;
+      const policy = options.rateLimit === false ? { retry: { maxRetries: 0 } } : adapterJson.rateLimit || {};
+      const call = { method: prepared.action.method || prepared.http.method, endpoint: prepared.action.endpoint };
+      return callWithPolicy(limiter, policy, call, async () => send<T>(await sign(request, prepared.http), policy.resetHeader), options.clock);
+    },
+  };
+}
+
+/**
+ * Credentials from inline JSON or a JSON file
+ */
+function readCredentials(value: string | undefined): Credentials {
+  if (!value) return {};
+  return JSON.parse(value.trim().startsWith('{') ? value : readFileSync(value, 'utf8'));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let credentials: string | undefined;
+  let baseUrl: string | undefined;
+  let dryRun = false;
+  let rateLimit = true;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--credentials') credentials = args[++i];
+    else if (args[i] === '--base-url') baseUrl = args[++i];
+    else if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--no-rate-limit') rateLimit = false;
+    else positional.push(args[i]);
+  }
+
+  const [slug, actionId, config] = positional;
+  if (!slug || !actionId) {
+    console.error('Usage: npx tsx scripts/action-executor.ts <slug> <action> [config-json] [--credentials <json|file>] [--base-url <url>] [--dry-run] [--no-rate-limit]');
+    process.exit(1);
+  }
+
+  const executor = createActionExecutor({ baseUrl, rateLimit });
+  const request = { adapter: slug, action: actionId, config: config ? JSON.parse(config) : {}, credentials: readCredentials(credentials) };
+
+  if (dryRun) {
+    const prepared = await executor.prepare(request);
+    const formFields = (_key: string, value: unknown) => value instanceof FormData ? Object.fromEntries(value.entries()) : value;
+    console.log(JSON.stringify(prepared, formFields, 2));
+    return;
+  }
+
+  const result = await executor.execute(request);
+  console.log(JSON.stringify(result, null, 2));
+  if (!result.ok) process.exit(1);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
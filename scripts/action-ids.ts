@@ -0,0 +1,193 @@
+/**
+ * Action and Trigger IDs
+ *
+ * Derives snake_case ids for generated actions and triggers and makes them
+ * unique. Ids are how workflows, overrides and MCP tools refer to entries,
+ * so duplicates are renamed deterministically or rejected, never kept.
+ */
+
+import type { ActionDefinition, JSONSchema, TriggerDefinition } from './types';
+
+const VERSION_SEGMENT = /^(v\d+(\.\d+)?|\d{4}-\d{2}-\d{2})$/;
+
+/**
+ * Convert an identifier to snake_case, keeping acronym runs together
+ * e.g. "GetCustomers" -> "get_customers", "listAPIKeys" -> "list_api_keys"
+ */
+export function toSnakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Convert OpenAPI path to action ID
+ * e.g., "/v1/customers/{customer}" + "get" -> "get_customers"
+ */
+export function pathToActionId(path: string, method: string, operationId?: string): string {
+  if (operationId) {
+    // Use operationId if available (Stripe uses these)
+    return toSnakeCase(operationId);
+  }
+
+  // Generate from path
+  const cleanPath = path
+    .replace(/\/v\d+\//g, '/') // Remove version prefix
+    .replace(/\{[^}]+\}/g, '') // Remove path params
+    .replace(/\//g, '_')
+    .replace(/^_|_$/g, '')
+    .replace(/__+/g, '_');
+
+  return `${method}_${cleanPath}`.toLowerCase();
+}
+
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return word.replace(/ies$/, 'y');
+  if (/(ss|x|ch|sh)es$/.test(word)) return word.replace(/es$/, '');
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Display name for an action id, e.g. "list_customers" -> "List Customers"
+ */
+function idToName(id: string): string {
+  return id.split('_').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Whether a response schema describes a collection: an array, or a list
+ * envelope such as Stripe's `{ object: "list", data: [...] }`
+ */
+function isListResponse(schema: JSONSchema | undefined): boolean {
+  if (!schema) return false;
+  if (schema.type === 'array') return true;
+
+  const properties = schema.properties || {};
+  return properties.data?.type === 'array' || Boolean(properties.object?.enum?.includes('list'));
+}
+
+/**
+ * Replacement ids for an action, from most to least readable
+ *
+ * 1. Verb from the method and path shape: get_customer, list_customers, update_customer
+ * 2. The same, qualified by path params: get_customer_source_by_customer_and_id
+ * 3. Method plus the full path, version and params included
+ */
+function actionIdCandidates(action: ActionDefinition): string[] {
+  const method = (action.method || 'get').toLowerCase();
+  const segments = (action.endpoint || '').split('/').filter(Boolean);
+  const literals = segments.filter(segment => !segment.startsWith('{') && !VERSION_SEGMENT.test(segment));
+  const params = segments.filter(segment => segment.startsWith('{')).map(segment => toSnakeCase(segment.slice(1, -1)));
+  const endsWithParam = segments.length > 0 && segments[segments.length - 1].startsWith('{');
+
+  const resource = toSnakeCase(literals.join('_')) || 'resource';
+  const singular = toSnakeCase([...literals.slice(0, -1), singularize(literals[literals.length - 1] || 'resource')].join('_'));
+
+  let semantic: string;
+  if (method === 'get') {
+    semantic = endsWithParam ? `get_${singular}` : isListResponse(action.responseSchema) ? `list_${resource}` : `get_${resource}`;
+  } else if (method === 'delete') {
+    semantic = `delete_${endsWithParam ? singular : resource}`;
+  } else if (method === 'post' && !endsWithParam) {
+    semantic = `create_${singular}`;
+  } else {
+    semantic = `update_${endsWithParam ? singular : resource}`;
+  }
+
+  const qualified = params.length > 0 ? `${semantic}_by_${params.join('_and_')}` : semantic;
+  const full = `${method}_${toSnakeCase(segments.map(segment => segment.replace(/[{}]/g, '')).join('_'))}`;
+
+  return [semantic, qualified, full];
+}
+
+/**
+ * Rename entries that share an id. Each colliding group moves to the first
+ * candidate level that makes the whole group unique without taking an id
+ * already in use; groups that can't be separated throw. `rename` builds the
+ * renamed entry, so fields derived from the id can follow it.
+ */
+function resolveIdCollisions<T extends { id: string }>(
+  entries: T[],
+  kind: string,
+  candidates: (entry: T) => string[],
+  label: (entry: T) => string,
+  rename: (entry: T, id: string, group: T[]) => T = (entry, id) => ({ ...entry, id })
+): T[] {
+  const groups = new Map<string, T[]>();
+  for (const entry of entries) {
+    groups.set(entry.id, [...(groups.get(entry.id) || []), entry]);
+  }
+
+  const duplicates = [...groups.entries()].filter(([, group]) => group.length > 1);
+  if (duplicates.length === 0) return entries;
+
+  const taken = new Set([...groups.keys()].filter(id => groups.get(id)!.length === 1));
+  const renamed = new Map<T, T>();
+  const unresolved: string[] = [];
+
+  for (const [id, group] of duplicates.sort(([a], [b]) => a.localeCompare(b))) {
+    const options = group.map(candidates);
+    const levels = Math.max(...options.map(option => option.length));
+
+    let resolved = false;
+    for (let level = 0; level < levels && !resolved; level++) {
+      const ids = options.map(option => option[Math.min(level, option.length - 1)]);
+      if (new Set(ids).size !== ids.length || ids.some(candidate => taken.has(candidate))) continue;
+
+      group.forEach((entry, i) => {
+        taken.add(ids[i]);
+        if (ids[i] === id) return;
+        renamed.set(entry, rename(entry, ids[i], group));
+        console.log(`  ↳ ${kind} id ${id} → ${ids[i]} (${label(entry)})`);
+      });
+      resolved = true;
+    }
+
+    if (!resolved) {
+      unresolved.push(`"${id}": ${group.map(label).join(', ')}`);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new Error(`Could not resolve duplicate ${kind} ids:\n  ${unresolved.join('\n  ')}`);
+  }
+
+  return entries.map(entry => renamed.get(entry) || entry);
+}
+
+/**
+ * Make action ids unique, e.g. get_customers for both GET /v1/customers and
+ * GET /v1/customers/{customer} becomes list_customers and get_customer
+ */
+export function resolveActionIds<T extends ActionDefinition>(actions: T[]): T[] {
+  return resolveIdCollisions(
+    actions,
+    'action',
+    actionIdCandidates,
+    action => `${action.method || '?'} ${action.endpoint || action.name}`,
+    (action, id, group) => ({
+      ...action,
+      id,
+      // Names built from the path collide like the ids did ("Get Customers" for
+      // both); spec summaries that tell the actions apart are kept
+      ...(group.some(other => other !== action && other.name === action.name) ? { name: idToName(id) } : {}),
+    })
+  );
+}
+
+/**
+ * Make trigger ids unique, e.g. invoice.payment_failed and
+ * invoice_payment.failed become invoice__payment_failed and invoice_payment__failed
+ */
+export function resolveTriggerIds<T extends Pick<TriggerDefinition, 'id' | 'event'>>(triggers: T[]): T[] {
+  return resolveIdCollisions(
+    triggers,
+    'trigger',
+    trigger => [trigger.event.split('.').map(toSnakeCase).join('__')],
+    trigger => trigger.event
+  );
+}
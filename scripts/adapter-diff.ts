@@ -0,0 +1,869 @@
+/**
+ * Adapter Diff
+ *
+ * Compares two versions of an adapter (adapter.json and its manifest, in
+ * either layout) and classifies every change by the semver bump it needs:
+ *
+ * - major (breaking): a removed action, trigger or curated MCP tool, a new
+ *   required param, a changed type, a narrowed enum or tightened constraint
+ *   on an input, a removed response or payload field, a changed trigger
+ *   event, a removed or newly required auth field, or a changed signature
+ *   recipe (e.g. `signatureAlgorithm`)
+ * - minor (additive): new actions, triggers, optional params and response
+ *   fields, widened inputs, optional auth fields and a first base_url
+ * - patch (cosmetic): descriptions, names, categories, request details such
+ *   as endpoints, rate limits and other metadata
+ *
+ * Inputs are checked as Encompass sends them (widening is safe), responses
+ * and payloads as Encompass reads them (removing is not). An action's
+ * contract is its id and schemas: how the request is built is an
+ * implementation detail.
+ *
+ * The declared bump, from the old to the new `version` in adapter.json and in
+ * the adapter's root manifest.json entry, must be at least the required one.
+ *
+ * Usage:
+ *   npx tsx scripts/adapter-diff.ts [slug...] [--base <ref|dir>] [--head <ref|dir>] [--json]
+ *
+ * Each side is a git ref or a directory: a registry root, or one adapter's
+ * directory. By default the working tree is compared with HEAD. Exits with
+ * code 1 when any adapter's version bump is too small.
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import type { AdapterManifest, JSONSchema, WebhookConfig } from './types';
+import { secretField, type AuthConfig, type AuthField } from './auth-config';
+import { readManifest } from './manifest-loader';
+import { webhookRecipe } from './webhook-verifier';
+
+export type ChangeLevel = 'major' | 'minor' | 'patch';
+
+export type BumpLevel = ChangeLevel | 'none';
+
+export interface AdapterChange {
+  level: ChangeLevel;
+  code: string;
+  /** Dot-separated location, e.g. actions.create_customer.configSchema.email */
+  path: string;
+  message: string;
+}
+
+export interface AdapterJson {
+  slug: string;
+  name: string;
+  version: string;
+  base_url?: string;
+  authentication?: AuthConfig;
+  [key: string]: unknown;
+}
+
+/**
+ * One version of an adapter
+ */
+export interface AdapterVersion {
+  adapter: AdapterJson;
+  manifest: AdapterManifest;
+}
+
+interface RootManifest {
+  version?: string;
+  adapters?: Array<{ slug: string; version: string }>;
+}
+
+/**
+ * A registry (or a single adapter) at one point in time
+ */
+export interface RegistrySource {
+  /** The ref or directory it was opened from */
+  label: string;
+  slugs(): string[];
+  adapter(slug: string): AdapterVersion | undefined;
+  /** The root manifest.json, when the source is a whole registry */
+  rootManifest(): RootManifest | undefined;
+}
+
+export interface AdapterDiff {
+  slug: string;
+  status: 'changed' | 'unchanged' | 'added' | 'removed';
+  baseVersion?: string;
+  headVersion?: string;
+  changes: AdapterChange[];
+  required: BumpLevel;
+  /** The bump from the base to the head adapter.json version */
+  declared: BumpLevel;
+  /** Why the declared versions don't cover the changes, when they don't */
+  problems: string[];
+}
+
+const BUMP_ORDER: BumpLevel[] = ['none', 'patch', 'minor', 'major'];
+
+const rank = (level: BumpLevel) => BUMP_ORDER.indexOf(level);
+
+/**
+ * JSON with sorted keys, so key order alone is never a change
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, item]) => item !== undefined);
+    return `{${entries.sort(([a], [b]) => a.localeCompare(b)).map(([key, item]) => `${JSON.stringify(key)}:${canonical(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/**
+ * Keys whose values differ between two objects, ignoring the handled ones
+ */
+function changedKeys(before: object, after: object, handled: string[]): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter(key => !handled.includes(key))
+    .filter(key => !same((before as Record<string, unknown>)[key], (after as Record<string, unknown>)[key]))
+    .sort();
+}
+
+/**
+ * The bump between two versions; throws on anything that isn't MAJOR.MINOR.PATCH
+ */
+export function bumpBetween(from: string, to: string): BumpLevel | 'downgrade' {
+  const parse = (version: string) => {
+    const match = version.match(/^(\d+)\.(\d+)\.(\d+)(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/);
+    if (!match) throw new Error(`"${version}" is not a semantic version`);
+    return match.slice(1, 4).map(Number);
+  };
+  const [a, b] = [parse(from), parse(to)];
+  const levels: ChangeLevel[] = ['major', 'minor', 'patch'];
+  for (let i = 0; i < 3; i++) {
+    if (b[i] > a[i]) return levels[i];
+    if (b[i] < a[i]) return 'downgrade';
+  }
+  return 'none';
+}
+
+/**
+ * The smallest bump that covers every change
+ */
+export function requiredBump(changes: AdapterChange[]): BumpLevel {
+  return changes.reduce<BumpLevel>((level, change) => rank(change.level) > rank(level) ? change.level : level, 'none');
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+/**
+ * Where in the adapter a schema is, for paths and messages
+ */
+interface SchemaLocation {
+  /** e.g. "Action create_customer" */
+  subject: string;
+  /** e.g. "config" */
+  label: string;
+  /** input: what Encompass sends; output: what it reads */
+  direction: 'input' | 'output';
+  path: string;
+  /** Property path within the schema, e.g. "address.city" */
+  field: string;
+}
+
+interface SchemaContext {
+  oldDefs: Record<string, JSONSchema>;
+  newDefs: Record<string, JSONSchema>;
+  /** Pairs of $refs already compared, so recursive schemas end */
+  seen: Set<string>;
+  changes: AdapterChange[];
+}
+
+/** Keywords compareSchemas() handles; any other difference is an annotation */
+const SCHEMA_KEYWORDS = [
+  '$ref', '$defs', 'type', 'nullable', 'enum', 'const', 'format', 'pattern', 'properties', 'required',
+  'additionalProperties', 'items', 'oneOf', 'anyOf', 'allOf',
+  'minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties',
+  'maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties',
+];
+
+/** Bounds where a higher value accepts less */
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+
+/** Bounds where a lower value accepts less */
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+function describe(location: SchemaLocation): string {
+  const noun = location.direction === 'input' ? 'param' : 'field';
+  return location.field ? `${location.subject} ${location.label} ${noun} "${location.field}"` : `${location.subject} ${location.label}`;
+}
+
+function child(location: SchemaLocation, segment: string, field = location.field ? `${location.field}.${segment}` : segment): SchemaLocation {
+  return { ...location, path: `${location.path}.${segment}`, field };
+}
+
+/**
+ * Follow local `#/$defs/<name>` references
+ */
+function deref(schema: JSONSchema, defs: Record<string, JSONSchema>): { schema: JSONSchema; ref?: string } {
+  let ref: string | undefined;
+  for (let depth = 0; typeof schema.$ref === 'string' && depth < 32; depth++) {
+    ref = schema.$ref;
+    schema = defs[schema.$ref.replace(/^#\/\$defs\//, '')] || {};
+  }
+  return { schema, ref };
+}
+
+/**
+ * Types a schema allows; undefined when it allows any
+ */
+function typesOf(schema: JSONSchema): Set<string> | undefined {
+  if (schema.type === undefined) return undefined;
+  const types = new Set(Array.isArray(schema.type) ? schema.type : [schema.type]);
+  if (schema.nullable === true) types.add('null');
+  return types;
+}
+
+/**
+ * Whether every value of the narrow types is a value of the wide ones
+ */
+function covers(wide: Set<string> | undefined, narrow: Set<string> | undefined): boolean {
+  if (!wide) return true;
+  if (!narrow) return false;
+  return [...narrow].every(type => wide.has(type) || (type === 'integer' && wide.has('number')));
+}
+
+function formatTypes(types: Set<string> | undefined): string {
+  return types ? [...types].join(' | ') : 'any';
+}
+
+/**
+ * Allowed values from `enum` or `const`; undefined when unrestricted
+ */
+function allowedValues(schema: JSONSchema): string[] | undefined {
+  if (Array.isArray(schema.enum)) return schema.enum.map(canonical);
+  if (schema.const !== undefined) return [canonical(schema.const)];
+  return undefined;
+}
+
+/**
+ * Classify the differences between two versions of an embedded schema
+ */
+function compareSchemas(before: JSONSchema, after: JSONSchema, location: SchemaLocation, context: SchemaContext): void {
+  const oldResolved = deref(before, context.oldDefs);
+  const newResolved = deref(after, context.newDefs);
+  if (oldResolved.ref || newResolved.ref) {
+    const pair = `${oldResolved.ref}|${newResolved.ref}`;
+    if (context.seen.has(pair)) return;
+    context.seen.add(pair);
+  }
+  const [a, b] = [oldResolved.schema, newResolved.schema];
+  const input = location.direction === 'input';
+  const add = (level: ChangeLevel, code: string, message: string, path = location.path) =>
+    context.changes.push({ level, code, path, message });
+
+  const [oldTypes, newTypes] = [typesOf(a), typesOf(b)];
+  if (!same(oldTypes && [...oldTypes].sort(), newTypes && [...newTypes].sort())) {
+    const safe = input ? covers(newTypes, oldTypes) : covers(oldTypes, newTypes);
+    add(
+      safe ? 'minor' : 'major',
+      safe ? (input ? 'type-widened' : 'type-narrowed') : 'type-changed',
+      `${describe(location)} type changed from ${formatTypes(oldTypes)} to ${formatTypes(newTypes)}`
+    );
+  }
+
+  const [oldValues, newValues] = [allowedValues(a), allowedValues(b)];
+  if (!same(oldValues, newValues)) {
+    const removed = oldValues && newValues ? oldValues.filter(value => !newValues.includes(value)) : [];
+    const narrowed = Boolean(newValues && (!oldValues || removed.length > 0));
+    if (input && narrowed) {
+      const detail = oldValues ? `no longer accepts ${removed.join(', ')}` : `now only accepts ${newValues!.join(', ')}`;
+      add('major', 'enum-narrowed', `${describe(location)} ${detail}`);
+    } else {
+      add('minor', input ? 'enum-widened' : 'enum-changed', `${describe(location)} allowed values changed`);
+    }
+  }
+
+  for (const keyword of [...LOWER_BOUNDS, ...UPPER_BOUNDS, 'pattern', 'format']) {
+    const [oldValue, newValue] = [a[keyword], b[keyword]];
+    if (same(oldValue, newValue)) continue;
+    if (!input) {
+      add('patch', 'constraint-changed', `${describe(location)} ${keyword} changed`);
+      continue;
+    }
+    const tightened = newValue !== undefined && (
+      oldValue === undefined
+      || (LOWER_BOUNDS.includes(keyword) && (newValue as number) > (oldValue as number))
+      || (UPPER_BOUNDS.includes(keyword) && (newValue as number) < (oldValue as number))
+      || keyword === 'pattern' || keyword === 'format'
+    );
+    const change = `${keyword} ${oldValue === undefined ? 'added' : newValue === undefined ? 'removed' : `changed from ${oldValue} to ${newValue}`}`;
+    add(
+      tightened ? 'major' : 'minor',
+      tightened ? 'constraint-tightened' : 'constraint-loosened',
+      `${describe(location)} ${change}`
+    );
+  }
+
+  const [oldProps, newProps] = [a.properties || {}, b.properties || {}];
+  const [oldRequired, newRequired] = [new Set(a.required || []), new Set(b.required || [])];
+  for (const name of Object.keys(oldProps)) {
+    const at = child(location, name);
+    if (!(name in newProps)) {
+      add('major', input ? 'param-removed' : 'field-removed', `${describe(at)} was removed`, at.path);
+      continue;
+    }
+    compareSchemas(oldProps[name], newProps[name], at, context);
+    if (oldRequired.has(name) === newRequired.has(name)) continue;
+    const nowRequired = newRequired.has(name);
+    // A param Encompass must now send breaks callers; a field it can no longer count on breaks readers
+    add(
+      nowRequired === input ? 'major' : 'minor',
+      nowRequired ? (input ? 'param-required' : 'field-required') : (input ? 'param-optional' : 'field-optional'),
+      `${describe(at)} is now ${nowRequired ? 'required' : 'optional'}`,
+      at.path
+    );
+  }
+  for (const name of Object.keys(newProps)) {
+    if (name in oldProps) continue;
+    const at = child(location, name);
+    if (input && newRequired.has(name)) add('major', 'required-param-added', `${describe(at)} was added as required`, at.path);
+    else add('minor', input ? 'param-added' : 'field-added', `${describe(at)} was added`, at.path);
+  }
+
+  const [oldExtra, newExtra] = [a.additionalProperties, b.additionalProperties];
+  if (oldExtra && newExtra && typeof oldExtra === 'object' && typeof newExtra === 'object') {
+    compareSchemas(oldExtra as JSONSchema, newExtra as JSONSchema, child(location, '*'), context);
+  } else if (!same(oldExtra, newExtra)) {
+    const closed = newExtra === false;
+    add(
+      input && closed ? 'major' : input ? 'minor' : 'patch',
+      'additional-properties-changed',
+      `${describe(location)} ${closed ? 'no longer accepts' : 'now accepts'} unlisted properties`
+    );
+  }
+
+  if (a.items || b.items) {
+    compareSchemas(a.items || {}, b.items || {}, child(location, '[]', location.field ? `${location.field}[]` : '[]'), context);
+  }
+
+  for (const keyword of ['oneOf', 'anyOf', 'allOf']) {
+    const [oldVariants, newVariants] = [(a[keyword] || []) as JSONSchema[], (b[keyword] || []) as JSONSchema[]];
+    const shared = Math.min(oldVariants.length, newVariants.length);
+    for (let i = 0; i < shared; i++) {
+      compareSchemas(oldVariants[i], newVariants[i], { ...location, path: `${location.path}.${keyword}[${i}]` }, context);
+    }
+    if (oldVariants.length === newVariants.length) continue;
+    // allOf adds constraints with each entry; oneOf and anyOf add alternatives
+    const accepts = keyword === 'allOf' ? newVariants.length < oldVariants.length : newVariants.length > oldVariants.length;
+    add(
+      input && !accepts ? 'major' : 'minor',
+      accepts ? 'variants-widened' : 'variants-narrowed',
+      `${describe(location)} ${keyword} went from ${oldVariants.length} to ${newVariants.length} schemas`
+    );
+  }
+
+  const annotations = changedKeys(a, b, SCHEMA_KEYWORDS);
+  if (annotations.length > 0) {
+    add('patch', 'schema-annotation-changed', `${describe(location)} ${annotations.join(', ')} changed`);
+  }
+}
+
+/**
+ * Compare two root schemas (either may be missing), each with its own $defs
+ */
+function compareRootSchemas(
+  before: JSONSchema | undefined,
+  after: JSONSchema | undefined,
+  location: SchemaLocation,
+  changes: AdapterChange[]
+): void {
+  if (!before && !after) return;
+  if (!before || !after) {
+    const removed = !after;
+    changes.push({
+      level: removed && location.direction === 'output' ? 'major' : 'minor',
+      code: removed ? 'schema-removed' : 'schema-added',
+      path: location.path,
+      message: `${location.subject} ${location.label} schema was ${removed ? 'removed' : 'added'}`,
+    });
+    return;
+  }
+  compareSchemas(before, after, location, {
+    oldDefs: (before.$defs || {}) as Record<string, JSONSchema>,
+    newDefs: (after.$defs || {}) as Record<string, JSONSchema>,
+    seen: new Set(),
+    changes,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Manifests
+// ---------------------------------------------------------------------------
+
+/**
+ * Removed, added and kept entries of two lists keyed by id
+ */
+function matchEntries<T>(before: T[], after: T[], key: (entry: T) => string) {
+  const oldById = new Map(before.map(entry => [key(entry), entry]));
+  const newById = new Map(after.map(entry => [key(entry), entry]));
+  return {
+    removed: [...oldById.keys()].filter(id => !newById.has(id)),
+    added: [...newById.keys()].filter(id => !oldById.has(id)),
+    kept: [...oldById.keys()].filter(id => newById.has(id)).map(id => [id, oldById.get(id)!, newById.get(id)!] as const),
+  };
+}
+
+function actionChanges(before: AdapterManifest, after: AdapterManifest, changes: AdapterChange[]): void {
+  const { removed, added, kept } = matchEntries(before.actions, after.actions, action => action.id);
+  for (const id of removed) changes.push({ level: 'major', code: 'action-removed', path: `actions.${id}`, message: `Action ${id} was removed` });
+  for (const id of added) changes.push({ level: 'minor', code: 'action-added', path: `actions.${id}`, message: `Action ${id} was added` });
+
+  for (const [id, a, b] of kept) {
+    const path = `actions.${id}`;
+    const subject = `Action ${id}`;
+    compareRootSchemas(a.configSchema, b.configSchema, { subject, label: 'config', direction: 'input', path: `${path}.configSchema`, field: '' }, changes);
+    compareRootSchemas(a.responseSchema, b.responseSchema, { subject, label: 'response', direction: 'output', path: `${path}.responseSchema`, field: '' }, changes);
+
+    if (!same(a.pagination, b.pagination)) {
+      const removedPagination = !b.pagination;
+      changes.push({
+        level: removedPagination ? 'major' : 'minor',
+        code: 'pagination-changed',
+        path: `${path}.pagination`,
+        message: `${subject} ${removedPagination ? 'no longer paginates' : a.pagination ? 'pagination changed' : 'now paginates'}`,
+      });
+    }
+
+    const request = changedKeys(a, b, ['id', 'configSchema', 'responseSchema', 'pagination'])
+      .filter(key => ['method', 'endpoint', 'parameterLocations', 'contentType'].includes(key));
+    if (request.length > 0) {
+      changes.push({ level: 'patch', code: 'action-request-changed', path, message: `${subject} ${request.join(', ')} changed` });
+    }
+    const metadata = changedKeys(a, b, ['id', 'configSchema', 'responseSchema', 'pagination', 'method', 'endpoint', 'parameterLocations', 'contentType']);
+    if (metadata.length > 0) {
+      changes.push({ level: 'patch', code: 'action-metadata-changed', path, message: `${subject} ${metadata.join(', ')} changed` });
+    }
+  }
+}
+
+function triggerChanges(before: AdapterManifest, after: AdapterManifest, changes: AdapterChange[]): void {
+  const { removed, added, kept } = matchEntries(before.triggers, after.triggers, trigger => trigger.id);
+  for (const id of removed) changes.push({ level: 'major', code: 'trigger-removed', path: `triggers.${id}`, message: `Trigger ${id} was removed` });
+  for (const id of added) changes.push({ level: 'minor', code: 'trigger-added', path: `triggers.${id}`, message: `Trigger ${id} was added` });
+
+  for (const [id, a, b] of kept) {
+    const path = `triggers.${id}`;
+    if (a.event !== b.event) {
+      changes.push({ level: 'major', code: 'trigger-event-changed', path: `${path}.event`, message: `Trigger ${id} event changed from ${a.event} to ${b.event}` });
+    }
+    compareRootSchemas(a.payloadSchema, b.payloadSchema, { subject: `Trigger ${id}`, label: 'payload', direction: 'output', path: `${path}.payloadSchema`, field: '' }, changes);
+    const metadata = changedKeys(a, b, ['id', 'event', 'payloadSchema']);
+    if (metadata.length > 0) {
+      changes.push({ level: 'patch', code: 'trigger-metadata-changed', path, message: `Trigger ${id} ${metadata.join(', ')} changed` });
+    }
+  }
+}
+
+/** Webhook settings that decide whether an existing secret still verifies deliveries */
+const SIGNATURE_KEYS: Array<keyof WebhookConfig> = [
+  'signatureHeader', 'signatureEncoding', 'signatureFormat', 'signedContent',
+  'timestampHeader', 'idHeader', 'secretEncoding', 'secretPrefix',
+];
+
+/**
+ * Compare webhook blocks with the verifier's defaults filled in, so spelling
+ * out a default (signatureEncoding "hex", signedContent "{body}") isn't a change
+ */
+function webhookChanges(before: WebhookConfig | undefined, after: WebhookConfig | undefined, changes: AdapterChange[]): void {
+  const [a, b] = [before || { supported: false }, after || { supported: false }].map(webhookRecipe);
+  if (a.supported !== b.supported) {
+    changes.push({
+      level: b.supported ? 'minor' : 'major',
+      code: b.supported ? 'webhooks-added' : 'webhooks-removed',
+      path: 'webhooks.supported',
+      message: b.supported ? 'Webhooks are now supported' : 'Webhooks are no longer supported',
+    });
+    return;
+  }
+  if (!b.supported) return;
+
+  if (a.signatureAlgorithm !== b.signatureAlgorithm) {
+    changes.push({
+      level: 'major',
+      code: 'signature-algorithm-changed',
+      path: 'webhooks.signatureAlgorithm',
+      message: `Webhook signature algorithm changed from ${a.signatureAlgorithm || 'none'} to ${b.signatureAlgorithm || 'none'}`,
+    });
+  }
+  const recipe = SIGNATURE_KEYS.filter(key => !same(a[key], b[key]));
+  if (recipe.length > 0) {
+    changes.push({ level: 'major', code: 'signature-changed', path: 'webhooks', message: `Webhook signature ${recipe.join(', ')} changed` });
+  }
+  if (!same(a.events, b.events)) {
+    changes.push({ level: 'minor', code: 'webhook-events-changed', path: 'webhooks.events', message: 'Webhook event extraction changed' });
+  }
+  const other = changedKeys(a, b, ['supported', 'signatureAlgorithm', 'events', ...SIGNATURE_KEYS]);
+  if (other.length > 0) {
+    changes.push({ level: 'patch', code: 'webhook-settings-changed', path: 'webhooks', message: `Webhook ${other.join(', ')} changed` });
+  }
+}
+
+function toolChanges(before: AdapterManifest, after: AdapterManifest, changes: AdapterChange[]): void {
+  const { removed, added, kept } = matchEntries(before.mcp?.tools || [], after.mcp?.tools || [], tool => tool.name);
+  const oldTools = new Map((before.mcp?.tools || []).map(tool => [tool.name, tool]));
+  for (const name of removed) {
+    // Generated tools are rebuilt from the actions and may regroup; curated ones are promised to agents
+    const generated = oldTools.get(name)!.generated;
+    changes.push({ level: generated ? 'minor' : 'major', code: 'tool-removed', path: `mcp.tools.${name}`, message: `MCP tool ${name} was removed` });
+  }
+  for (const name of added) changes.push({ level: 'minor', code: 'tool-added', path: `mcp.tools.${name}`, message: `MCP tool ${name} was added` });
+
+  for (const [name, a, b] of kept) {
+    const path = `mcp.tools.${name}`;
+    compareRootSchemas(a.inputSchema, b.inputSchema, { subject: `MCP tool ${name}`, label: 'input', direction: 'input', path: `${path}.inputSchema`, field: '' }, changes);
+    const metadata = changedKeys(a, b, ['name', 'inputSchema']);
+    if (metadata.length > 0) {
+      changes.push({ level: 'patch', code: 'tool-metadata-changed', path, message: `MCP tool ${name} ${metadata.join(', ')} changed` });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// adapter.json
+// ---------------------------------------------------------------------------
+
+function authFieldChanges(
+  before: AuthField[] = [],
+  after: AuthField[] = [],
+  key: 'fields' | 'oauth_app_fields',
+  changes: AdapterChange[]
+): void {
+  const { removed, added, kept } = matchEntries(before, after, field => field.name);
+  const newFields = new Map(after.map(field => [field.name, field]));
+  const path = `authentication.${key}`;
+  for (const name of removed) {
+    changes.push({ level: 'major', code: 'auth-field-removed', path: `${path}.${name}`, message: `Auth field ${name} was removed` });
+  }
+  for (const name of added) {
+    const required = newFields.get(name)!.required;
+    changes.push({
+      level: required ? 'major' : 'minor',
+      code: required ? 'required-auth-field-added' : 'auth-field-added',
+      path: `${path}.${name}`,
+      message: `Auth field ${name} was added${required ? ' as required' : ''}`,
+    });
+  }
+  for (const [name, a, b] of kept) {
+    if (a.required !== b.required) {
+      changes.push({
+        level: b.required ? 'major' : 'minor',
+        code: b.required ? 'auth-field-required' : 'auth-field-optional',
+        path: `${path}.${name}`,
+        message: `Auth field ${name} is now ${b.required ? 'required' : 'optional'}`,
+      });
+    }
+    const metadata = changedKeys(a, b, ['name', 'required']);
+    if (metadata.length > 0) {
+      changes.push({ level: 'patch', code: 'auth-field-metadata-changed', path: `${path}.${name}`, message: `Auth field ${name} ${metadata.join(', ')} changed` });
+    }
+  }
+}
+
+/**
+ * Where the executor sends an api_key adapter's key, defaults filled in, so
+ * writing out a default isn't a change
+ */
+function apiKeyPlacement(auth: AuthConfig): Record<string, string> | undefined {
+  if (auth.type !== 'api_key' || !auth.apiKey) return undefined;
+  const placement = auth.apiKey;
+  return {
+    in: placement.in,
+    name: placement.in === 'header' ? placement.name.toLowerCase() : placement.name,
+    prefix: placement.prefix || '',
+    field: placement.field || secretField(auth, ['api_key']) || '',
+  };
+}
+
+/**
+ * An api_key adapter with neither a placement nor signing can't be executed
+ */
+function executable(auth: AuthConfig): boolean {
+  return auth.type !== 'api_key' || Boolean(auth.apiKey || auth.signing);
+}
+
+function authChanges(before: AuthConfig | undefined, after: AuthConfig | undefined, changes: AdapterChange[]): void {
+  if (!before || !after) {
+    if (before || after) {
+      changes.push({ level: 'major', code: 'auth-type-changed', path: 'authentication', message: `Authentication was ${after ? 'added' : 'removed'}` });
+    }
+    return;
+  }
+  if (before.type !== after.type) {
+    changes.push({
+      level: 'major',
+      code: 'auth-type-changed',
+      path: 'authentication.type',
+      message: `Authentication type changed from ${before.type} to ${after.type}`,
+    });
+  }
+  authFieldChanges(before.fields, after.fields, 'fields', changes);
+  authFieldChanges(before.oauth_app_fields, after.oauth_app_fields, 'oauth_app_fields', changes);
+
+  const [oldOAuth, newOAuth] = [before.oauth2 || {}, after.oauth2 || {}];
+  const newScopes = (newOAuth.scopes || []).filter(scope => !(oldOAuth.scopes || []).includes(scope));
+  if (newScopes.length > 0) {
+    // Existing connections were never granted them
+    changes.push({ level: 'major', code: 'oauth-scopes-added', path: 'authentication.oauth2.scopes', message: `OAuth scopes added: ${newScopes.join(', ')}` });
+  } else if (!same(oldOAuth.scopes, newOAuth.scopes)) {
+    changes.push({ level: 'minor', code: 'oauth-scopes-removed', path: 'authentication.oauth2.scopes', message: 'OAuth scopes removed' });
+  }
+  const flow = changedKeys(oldOAuth, newOAuth, ['scopes']);
+  if (flow.length > 0) {
+    changes.push({ level: 'major', code: 'oauth-changed', path: 'authentication.oauth2', message: `OAuth ${flow.join(', ')} changed` });
+  }
+
+  const placement = changedKeys(before, after, ['type', 'fields', 'oauth_app_fields', 'oauth2', 'apiKey', 'testEndpoint']);
+  if (!same(apiKeyPlacement(before), apiKeyPlacement(after))) placement.push('apiKey');
+  if (placement.length > 0 && before.type === after.type && !executable(before) && executable(after)) {
+    // Nothing could call the adapter before, so no caller breaks
+    changes.push({ level: 'minor', code: 'auth-placement-added', path: 'authentication', message: `How credentials are sent is now declared (${placement.join(', ')})` });
+  } else if (placement.length > 0) {
+    changes.push({ level: 'major', code: 'auth-placement-changed', path: 'authentication', message: `How credentials are sent changed (${placement.join(', ')})` });
+  }
+  if (before.testEndpoint !== after.testEndpoint) {
+    changes.push({ level: 'patch', code: 'auth-test-endpoint-changed', path: 'authentication.testEndpoint', message: 'Connection test endpoint changed' });
+  }
+}
+
+/**
+ * Every change between two versions of an adapter
+ */
+export function diffAdapters(before: AdapterVersion, after: AdapterVersion): AdapterChange[] {
+  const changes: AdapterChange[] = [];
+  const [a, b] = [before.adapter, after.adapter];
+
+  if (a.slug !== b.slug) {
+    changes.push({ level: 'major', code: 'slug-changed', path: 'slug', message: `Slug changed from ${a.slug} to ${b.slug}` });
+  }
+  if (!a.base_url && b.base_url) {
+    // Actions that couldn't run without one now can
+    changes.push({ level: 'minor', code: 'base-url-added', path: 'base_url', message: `Base URL ${b.base_url} added` });
+  } else if (a.base_url !== b.base_url) {
+    changes.push({ level: 'major', code: 'base-url-changed', path: 'base_url', message: `Base URL changed from ${a.base_url || '(none)'} to ${b.base_url || '(none)'}` });
+  }
+  authChanges(a.authentication, b.authentication, changes);
+  const metadata = changedKeys(a, b, ['$schema', 'slug', 'version', 'base_url', 'authentication']);
+  for (const key of metadata) {
+    changes.push({ level: 'patch', code: 'adapter-metadata-changed', path: key, message: `${key} changed` });
+  }
+
+  actionChanges(before.manifest, after.manifest, changes);
+  triggerChanges(before.manifest, after.manifest, changes);
+  webhookChanges(before.manifest.webhooks, after.manifest.webhooks, changes);
+  toolChanges(before.manifest, after.manifest, changes);
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+function readAdapterDir(adapterDir: string): AdapterVersion | undefined {
+  const file = join(adapterDir, 'adapter.json');
+  if (!existsSync(file)) return undefined;
+  return {
+    adapter: JSON.parse(readFileSync(file, 'utf8')),
+    manifest: readManifest(adapterDir) || { actions: [], triggers: [] },
+  };
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+function openDirectory(dir: string, label: string): RegistrySource {
+  // One adapter's directory rather than a registry root
+  if (existsSync(join(dir, 'adapter.json'))) {
+    const version = readAdapterDir(dir)!;
+    return {
+      label,
+      slugs: () => [version.adapter.slug],
+      adapter: slug => slug === version.adapter.slug ? version : undefined,
+      rootManifest: () => undefined,
+    };
+  }
+
+  const adaptersDir = join(dir, 'adapters');
+  return {
+    label,
+    slugs: () => existsSync(adaptersDir)
+      ? readdirSync(adaptersDir).filter(slug => existsSync(join(adaptersDir, slug, 'adapter.json'))).sort()
+      : [],
+    adapter: slug => readAdapterDir(join(adaptersDir, slug)),
+    rootManifest: () => existsSync(join(dir, 'manifest.json')) ? JSON.parse(readFileSync(join(dir, 'manifest.json'), 'utf8')) : undefined,
+  };
+}
+
+function openGitRef(ref: string, registryDir: string): RegistrySource {
+  const list = (path: string, recursive = false) =>
+    git(['ls-tree', ...(recursive ? ['-r'] : []), '--name-only', ref, '--', path], registryDir).split('\n').filter(Boolean);
+  const versions = new Map<string, AdapterVersion | undefined>();
+
+  return {
+    label: ref,
+    slugs: () => {
+      const files = new Set(list('adapters/', true));
+      return list('adapters/')
+        .map(path => path.replace(/^adapters\//, ''))
+        .filter(slug => files.has(`adapters/${slug}/adapter.json`))
+        .sort();
+    },
+    adapter: slug => {
+      if (versions.has(slug)) return versions.get(slug);
+      const files = list(`adapters/${slug}/`, true);
+      if (!files.includes(`adapters/${slug}/adapter.json`)) return undefined;
+
+      // Check the adapter out into a scratch directory so both manifest layouts read the same way
+      const scratch = mkdtempSync(join(tmpdir(), 'adapter-diff-'));
+      try {
+        for (const file of files) {
+          mkdirSync(dirname(join(scratch, file)), { recursive: true });
+          writeFileSync(join(scratch, file), git(['show', `${ref}:${file}`], registryDir));
+        }
+        versions.set(slug, readAdapterDir(join(scratch, 'adapters', slug)));
+        return versions.get(slug);
+      } finally {
+        rmSync(scratch, { recursive: true, force: true });
+      }
+    },
+    rootManifest: () => list('manifest.json').length > 0 ? JSON.parse(git(['show', `${ref}:manifest.json`], registryDir)) : undefined,
+  };
+}
+
+/**
+ * A registry or adapter directory, or a git ref of the registry repository
+ */
+export function openSource(spec: string, registryDir: string = process.cwd()): RegistrySource {
+  const dir = resolve(registryDir, spec);
+  if (existsSync(dir) && statSync(dir).isDirectory()) return openDirectory(dir, spec);
+
+  try {
+    git(['rev-parse', '--verify', '--quiet', `${spec}^{commit}`], registryDir);
+  } catch {
+    throw new Error(`"${spec}" is neither a directory nor a git ref`);
+  }
+  return openGitRef(spec, registryDir);
+}
+
+/**
+ * Problems with the bump between two declared versions, for one place they're declared
+ */
+function bumpProblems(where: string, from: string, to: string, required: BumpLevel): string[] {
+  let declared: BumpLevel | 'downgrade';
+  try {
+    declared = bumpBetween(from, to);
+  } catch (error) {
+    return [`${where}: ${(error as Error).message}`];
+  }
+  if (declared === 'downgrade') return [`${where}: version went down from ${from} to ${to}`];
+  if (rank(declared) < rank(required)) {
+    const bump = declared === 'none' ? 'keeps the version' : `is a ${declared} bump`;
+    return [`${where}: ${from} -> ${to} ${bump}, but the changes need a ${required} bump`];
+  }
+  return [];
+}
+
+/**
+ * Compare one adapter between two sources
+ */
+export function diffAdapter(slug: string, base: RegistrySource, head: RegistrySource): AdapterDiff {
+  const [before, after] = [base.adapter(slug), head.adapter(slug)];
+  if (!before && !after) throw new Error(`Adapter "${slug}" is in neither ${base.label} nor ${head.label}`);
+
+  const result: AdapterDiff = {
+    slug,
+    status: !before ? 'added' : !after ? 'removed' : 'changed',
+    baseVersion: before?.adapter.version,
+    headVersion: after?.adapter.version,
+    changes: [],
+    required: 'none',
+    declared: 'none',
+    problems: [],
+  };
+  if (!before || !after) return result;
+
+  result.changes = diffAdapters(before, after);
+  result.required = requiredBump(result.changes);
+  if (result.changes.length === 0) result.status = 'unchanged';
+
+  result.problems.push(...bumpProblems('adapter.json', before.adapter.version, after.adapter.version, result.required));
+  try {
+    const declared = bumpBetween(before.adapter.version, after.adapter.version);
+    result.declared = declared === 'downgrade' ? 'none' : declared;
+  } catch {
+    // Reported by bumpProblems
+  }
+
+  const entry = (source: RegistrySource) => source.rootManifest()?.adapters?.find(adapter => adapter.slug === slug);
+  const [oldEntry, newEntry] = [entry(base), entry(head)];
+  if (oldEntry && newEntry) {
+    result.problems.push(...bumpProblems('manifest.json', oldEntry.version, newEntry.version, result.required));
+  }
+  return result;
+}
+
+/**
+ * Compare the given adapters, or every adapter in either source
+ */
+export function diffRegistry(base: RegistrySource, head: RegistrySource, slugs?: string[]): AdapterDiff[] {
+  const all = slugs && slugs.length > 0 ? slugs : [...new Set([...base.slugs(), ...head.slugs()])].sort();
+  return all.map(slug => diffAdapter(slug, base, head));
+}
+
+function printDiff(diff: AdapterDiff): void {
+  if (diff.status === 'added' || diff.status === 'removed') {
+    console.log(`- ${diff.slug}: ${diff.status} (${diff.headVersion || diff.baseVersion})`);
+    return;
+  }
+  if (diff.status === 'unchanged' && diff.problems.length === 0) {
+    console.log(`- ${diff.slug}: no changes`);
+    return;
+  }
+
+  const icon = diff.problems.length === 0 ? '✓' : '✗';
+  console.log(`${icon} ${diff.slug} ${diff.baseVersion} -> ${diff.headVersion}: needs ${diff.required}, declared ${diff.declared}`);
+  for (const level of ['major', 'minor', 'patch'] as const) {
+    for (const change of diff.changes.filter(candidate => candidate.level === level)) {
+      console.log(`    ${level.padEnd(5)} ${change.message}`);
+    }
+  }
+  for (const problem of diff.problems) console.log(`    ❌ ${problem}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const slugs: string[] = [];
+  let base = 'HEAD';
+  let head = '.';
+  let json = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--base') base = args[++i];
+    else if (args[i] === '--head') head = args[++i];
+    else if (args[i] === '--json') json = true;
+    else slugs.push(args[i]);
+  }
+
+  const diffs = diffRegistry(openSource(base), openSource(head), slugs);
+  if (json) console.log(JSON.stringify(diffs, null, 2));
+  else diffs.forEach(printDiff);
+
+  if (diffs.some(diff => diff.problems.length > 0)) process.exit(1);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,321 @@
+/**
+ * AsyncAPI Importer
+ *
+ * Imports webhook events from an AsyncAPI 2.x or 3.x document into an
+ * adapter's manifest.json: one trigger per message, with its payload schema,
+ * and the `webhooks` block's signature header and algorithm from HTTP
+ * bindings or signature extensions.
+ *
+ * Imported triggers are merged into the existing ones by event name.
+ * Existing ids and categories are kept so workflows and overrides that
+ * reference them keep working; every other field comes from the import.
+ *
+ * Usage:
+ *   npx tsx scripts/asyncapi-importer.ts <slug> <source> [--dry-run]
+ *
+ * <source> is a URL, file:// URL or local path to a JSON or YAML document.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { SignatureAlgorithm, TriggerDefinition, WebhookConfig } from './types';
+import type { OpenAPISpec, Reference, Schema } from './openapi-types';
+import type {
+  AsyncAPIDocument,
+  Bindings,
+  ChannelV2,
+  ChannelV3,
+  Message,
+  OperationV2,
+  OperationV3,
+  SignatureExtensions,
+  Tag,
+} from './asyncapi-types';
+import { createSchemaResolver, loadExternalDocuments, type SchemaResolver } from './schema-resolver';
+import { loadDocument } from './spec-loader';
+import { formatDescription } from './description-formatter';
+import { resolveTriggerIds, toSnakeCase } from './action-ids';
+import { buildCategoryIndex, writeAdapterFiles } from './openapi-generator';
+import { getProviderProfile } from './providers';
+import { readManifest } from './manifest-loader';
+
+export interface AsyncAPIImport {
+  triggers: TriggerDefinition[];
+  /** Signature settings found in the document; undefined fields were not found */
+  webhooks: WebhookConfig;
+}
+
+/**
+ * A message together with the operation and channel it was found on
+ */
+interface MessageContext {
+  message: Message;
+  key?: string;
+  channel: ChannelV2 | ChannelV3;
+  channelName: string;
+  operation?: OperationV2 | OperationV3;
+}
+
+const SIGNATURE_ALGORITHMS: Record<string, SignatureAlgorithm> = {
+  hmacsha256: 'hmac-sha256',
+  sha256: 'hmac-sha256',
+  hmacsha1: 'hmac-sha1',
+  sha1: 'hmac-sha1',
+  hmacsha512: 'hmac-sha512',
+  sha512: 'hmac-sha512',
+  ecdsa: 'ecdsa',
+  rsasha256: 'rsa-sha256',
+  none: 'none',
+};
+
+/** Payload properties that carry the event name on the wire */
+const EVENT_DISCRIMINATORS = ['type', 'event', 'event_type', 'eventType'];
+
+/**
+ * Map provider spellings such as "HMAC_SHA256" or "sha256" to a SignatureAlgorithm
+ */
+function normalizeAlgorithm(value: string | undefined): SignatureAlgorithm | undefined {
+  return value ? SIGNATURE_ALGORITHMS[value.toLowerCase().replace(/[^a-z0-9]/g, '')] : undefined;
+}
+
+function algorithmFromText(text: string | undefined): SignatureAlgorithm | undefined {
+  return normalizeAlgorithm(text?.match(/hmac[\s_-]*sha[\s_-]*(1|256|512)|ecdsa|rsa[\s_-]*sha[\s_-]*256/i)?.[0]);
+}
+
+/**
+ * Collect every message with the channel and operation it belongs to
+ */
+function collectMessages(document: AsyncAPIDocument, resolver: SchemaResolver): MessageContext[] {
+  const contexts: MessageContext[] = [];
+  const channels = document.channels || {};
+
+  if (document.asyncapi.startsWith('2.')) {
+    for (const [channelName, channel] of Object.entries(channels) as Array<[string, ChannelV2]>) {
+      for (const operation of [channel.subscribe, channel.publish]) {
+        if (!operation?.message) continue;
+        const message = resolver.deref(operation.message);
+        const messages = 'oneOf' in message ? message.oneOf : [operation.message];
+        for (const entry of messages) {
+          contexts.push({ message: resolver.deref(entry as Message | Reference), channel, channelName, operation });
+        }
+      }
+    }
+    return contexts;
+  }
+
+  // AsyncAPI 3: operations point at channels, channels declare their messages
+  const seen = new Set<Message>();
+  for (const operation of Object.values(document.operations || {})) {
+    const channel = resolver.deref<ChannelV3>(operation.channel);
+    const channelName = channel.address || Object.keys(channels).find(name => channels[name] === channel) || '';
+    const references = operation.messages || Object.values(channel.messages || {});
+    for (const reference of references) {
+      const message = resolver.deref<Message>(reference);
+      const key = '$ref' in reference ? reference.$ref.split('/').pop() : undefined;
+      seen.add(message);
+      contexts.push({ message, key, channel, channelName, operation });
+    }
+  }
+
+  // Channels no operation refers to still describe events
+  for (const [channelName, channel] of Object.entries(channels) as Array<[string, ChannelV3]>) {
+    for (const [key, reference] of Object.entries(channel.messages || {})) {
+      const message = resolver.deref<Message>(reference);
+      if (!seen.has(message)) contexts.push({ message, key, channel, channelName });
+    }
+  }
+
+  return contexts;
+}
+
+/**
+ * Message payload schema, unwrapping AsyncAPI 3 multi-format schemas
+ */
+function payloadOf(message: Message): Schema | undefined {
+  const payload = message.payload as (Schema & { schema?: Schema; schemaFormat?: string }) | undefined;
+  if (!payload) return undefined;
+  return payload.schemaFormat && payload.schema ? payload.schema : payload;
+}
+
+/**
+ * Event name: the payload's constant type discriminator, else the message name
+ */
+function eventNameOf(context: MessageContext, payload: Schema | undefined, resolver: SchemaResolver): string {
+  const properties = payload ? resolver.deref<Schema>(payload).properties || {} : {};
+  for (const name of EVENT_DISCRIMINATORS) {
+    const property = properties[name] && resolver.deref<Schema>(properties[name]);
+    if (typeof property?.const === 'string') return property.const;
+    if (property?.enum?.length === 1 && typeof property.enum[0] === 'string') return property.enum[0];
+  }
+  return context.message.name || context.message.messageId || context.key || context.channelName;
+}
+
+function categoryOf(context: MessageContext): string | undefined {
+  const tags: Tag[] = [
+    ...(context.message.tags || []),
+    ...(context.operation?.tags || []),
+    ...(('tags' in context.channel && context.channel.tags) || []),
+  ];
+  return tags[0] ? toSnakeCase(tags[0].name) : undefined;
+}
+
+/**
+ * Signature header and algorithm from extensions, most specific level first,
+ * then from signature-like HTTP headers declared on the message
+ */
+function signatureOf(document: AsyncAPIDocument, contexts: MessageContext[], resolver: SchemaResolver): WebhookConfig {
+  const levels: SignatureExtensions[] = [
+    ...contexts.flatMap(context => [context.message, context.operation || {}, context.channel]),
+    document,
+  ];
+
+  let signatureHeader: string | undefined;
+  let signatureAlgorithm: SignatureAlgorithm | undefined;
+  for (const level of levels) {
+    signatureHeader ??= level['x-webhook-signature']?.header || level['x-signature-header'];
+    signatureAlgorithm ??= normalizeAlgorithm(level['x-webhook-signature']?.algorithm || level['x-signature-algorithm']);
+  }
+
+  if (!signatureHeader || !signatureAlgorithm) {
+    for (const context of contexts) {
+      const bindings: Array<Bindings | undefined> = [context.message.bindings, context.operation?.bindings];
+      const headerSchemas = [context.message.headers, ...bindings.map(binding => binding?.http?.headers)];
+      for (const headers of headerSchemas) {
+        if (!headers) continue;
+        for (const [name, schema] of Object.entries(resolver.deref<Schema>(headers).properties || {})) {
+          if (!/signature|digest|hmac/i.test(name)) continue;
+          signatureHeader ??= name.toLowerCase();
+          signatureAlgorithm ??= algorithmFromText(resolver.deref<Schema>(schema).description);
+        }
+      }
+    }
+  }
+
+  return {
+    supported: true,
+    ...(signatureHeader ? { signatureHeader: signatureHeader.toLowerCase() } : {}),
+    ...(signatureAlgorithm ? { signatureAlgorithm } : {}),
+  };
+}
+
+/**
+ * Read triggers and webhook signing from an AsyncAPI document
+ *
+ * @param docsUrl - Base URL for relative links in descriptions
+ */
+export async function importAsyncAPI(source: string, docsUrl?: string): Promise<AsyncAPIImport> {
+  const document = await loadDocument(source) as AsyncAPIDocument;
+  if (!document || typeof document.asyncapi !== 'string' || !/^[23]\./.test(document.asyncapi)) {
+    throw new Error(`${source} is not an AsyncAPI 2.x or 3.x document`);
+  }
+
+  // Schema $refs resolve the same way as in OpenAPI documents
+  const spec = document as unknown as OpenAPISpec;
+  const documents = await loadExternalDocuments(spec, source);
+  const resolver = createSchemaResolver(spec, { baseUri: source, documents });
+
+  const contexts = collectMessages(document, resolver);
+  const triggers: TriggerDefinition[] = [];
+
+  for (const context of contexts) {
+    const payload = payloadOf(context.message);
+    const event = eventNameOf(context, payload, resolver);
+    if (triggers.some(trigger => trigger.event === event)) continue;
+
+    const category = categoryOf(context);
+    const raw = context.message.description || context.message.summary ||
+      context.operation?.description || context.operation?.summary || `Triggered on ${event}`;
+
+    triggers.push({
+      id: toSnakeCase(event),
+      name: context.message.title || event.replace(/[._-]/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/\b\w/g, c => c.toUpperCase()),
+      ...formatDescription(raw, docsUrl),
+      event,
+      ...(category ? { category } : {}),
+      ...(payload ? { payloadSchema: resolver.convert(payload) } : {}),
+    });
+  }
+
+  return {
+    triggers: resolveTriggerIds(triggers),
+    webhooks: signatureOf(document, contexts, resolver),
+  };
+}
+
+/**
+ * Merge imported triggers into existing ones by event name
+ */
+export function mergeTriggers(existing: TriggerDefinition[], imported: TriggerDefinition[]): TriggerDefinition[] {
+  const byEvent = new Map(imported.map(trigger => [trigger.event, trigger]));
+
+  const merged = existing.map(trigger => {
+    const update = byEvent.get(trigger.event);
+    if (!update) return trigger;
+    byEvent.delete(trigger.event);
+    return {
+      ...trigger,
+      ...update,
+      id: trigger.id,
+      ...(trigger.category ? { category: trigger.category } : {}),
+    };
+  });
+
+  return resolveTriggerIds([...merged, ...byEvent.values()]);
+}
+
+/**
+ * Merge an import into the adapters/<slug> manifest, in either layout
+ */
+export function applyAsyncAPIImport(
+  adapterDir: string,
+  result: AsyncAPIImport
+): { adapterJson: Record<string, unknown>; manifestJson: Record<string, unknown> } {
+  const adapterFile = join(adapterDir, 'adapter.json');
+  if (!existsSync(adapterFile)) {
+    throw new Error(`${adapterFile} not found; create the adapter before importing its webhooks`);
+  }
+
+  const adapterJson = JSON.parse(readFileSync(adapterFile, 'utf8'));
+  const manifestJson: Record<string, any> = readManifest(adapterDir)
+    || { $schema: '../../schemas/adapter-manifest.schema.json', actions: [], triggers: [] };
+
+  manifestJson.triggers = mergeTriggers(manifestJson.triggers || [], result.triggers);
+  manifestJson.webhooks = { ...manifestJson.webhooks, ...result.webhooks };
+  if (manifestJson.categories) {
+    manifestJson.categories = buildCategoryIndex(manifestJson.actions, manifestJson.triggers);
+  }
+
+  return { adapterJson, manifestJson };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [slug, source] = args.filter(arg => !arg.startsWith('--'));
+  if (!slug || !source) {
+    console.error('Usage: npx tsx scripts/asyncapi-importer.ts <slug> <source> [--dry-run]');
+    process.exit(1);
+  }
+
+  const adapterDir = resolve('adapters', slug);
+  const result = await importAsyncAPI(source, getProviderProfile(slug).provider.documentation || undefined);
+  const { adapterJson, manifestJson } = applyAsyncAPIImport(adapterDir, result);
+
+  console.log(`Imported ${result.triggers.length} events from ${source}`);
+  console.log(`Webhooks: ${JSON.stringify(manifestJson.webhooks)}`);
+  console.log(`${slug} now has ${(manifestJson.triggers as unknown[]).length} triggers`);
+
+  if (dryRun) {
+    console.log('\nDry run - no files written');
+    return;
+  }
+  writeAdapterFiles(adapterDir, adapterJson, manifestJson);
+  console.log(`\nFiles written to: ${adapterDir}`);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
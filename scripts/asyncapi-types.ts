@@ -0,0 +1,106 @@
+/**
+ * AsyncAPI Types
+ *
+ * The subset of the AsyncAPI 2.x and 3.x document models used by the
+ * AsyncAPI importer.
+ */
+
+import type { Reference, Schema } from './openapi-types';
+
+export interface Tag {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Protocol bindings; only HTTP is read, for webhook headers
+ */
+export interface Bindings {
+  http?: {
+    headers?: Schema;
+    method?: string;
+  };
+  [protocol: string]: unknown;
+}
+
+/**
+ * Non-standard signing metadata some providers add to channels, operations or messages
+ */
+export interface SignatureExtensions {
+  'x-signature-header'?: string;
+  'x-signature-algorithm'?: string;
+  'x-webhook-signature'?: {
+    header?: string;
+    algorithm?: string;
+  };
+}
+
+export interface Message extends SignatureExtensions {
+  name?: string;
+  messageId?: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  payload?: Schema;
+  headers?: Schema;
+  tags?: Tag[];
+  bindings?: Bindings;
+}
+
+/**
+ * AsyncAPI 2.x operation (publish/subscribe on a channel)
+ */
+export interface OperationV2 extends SignatureExtensions {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: Tag[];
+  bindings?: Bindings;
+  message?: Message | Reference | { oneOf: Array<Message | Reference> };
+}
+
+export interface ChannelV2 extends SignatureExtensions {
+  description?: string;
+  subscribe?: OperationV2;
+  publish?: OperationV2;
+  bindings?: Bindings;
+}
+
+/**
+ * AsyncAPI 3.x channel; messages are declared here and referenced by operations
+ */
+export interface ChannelV3 extends SignatureExtensions {
+  address?: string | null;
+  title?: string;
+  summary?: string;
+  description?: string;
+  messages?: Record<string, Message | Reference>;
+  tags?: Tag[];
+  bindings?: Bindings;
+}
+
+export interface OperationV3 extends SignatureExtensions {
+  action: 'send' | 'receive';
+  channel: Reference;
+  title?: string;
+  summary?: string;
+  description?: string;
+  messages?: Reference[];
+  tags?: Tag[];
+  bindings?: Bindings;
+}
+
+export interface AsyncAPIDocument extends SignatureExtensions {
+  asyncapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  channels?: Record<string, ChannelV2 | ChannelV3>;
+  operations?: Record<string, OperationV3>;
+  components?: {
+    schemas?: Record<string, Schema>;
+    messages?: Record<string, Message | Reference>;
+  };
+}
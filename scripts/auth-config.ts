@@ -0,0 +1,273 @@
+/**
+ * Authentication Config
+ *
+ * Derives the adapter.json `authentication` block from an OpenAPI spec's
+ * securitySchemes. Mirrors `authentication` in schemas/adapter.schema.json.
+ * Provider profiles (scripts/providers) refine what the spec can't express,
+ * such as friendly field names, placeholders and the test endpoint.
+ */
+
+import { createHmac } from 'crypto';
+import type { OAuthFlow, OpenAPISpec, SecurityRequirement, SecurityScheme } from './openapi-types';
+import type { SchemaResolver } from './schema-resolver';
+import type { ProviderProfile } from './providers';
+import { toSnakeCase } from './action-ids';
+import { mergePatch } from './overrides';
+
+export type AuthType = 'oauth2' | 'api_key' | 'basic' | 'bearer' | 'jwt' | 'custom';
+
+export interface AuthField {
+  name: string;
+  label: string;
+  type: 'text' | 'password' | 'url' | 'email' | 'textarea';
+  required: boolean;
+  placeholder?: string;
+  helpText?: string;
+  defaultValue?: string;
+}
+
+export interface OAuth2Config {
+  authUrl?: string;
+  tokenUrl?: string;
+  scopes?: string[];
+  pkce?: boolean;
+}
+
+/**
+ * Where an api_key credential is sent. An api_key adapter without it must
+ * sign its requests instead, or it can't be executed.
+ */
+export interface ApiKeyPlacement {
+  in: 'header' | 'query';
+  name: string;
+  /** Prepended to the key, e.g. "Bearer " */
+  prefix?: string;
+  /** Credential field holding the key (default: the first required password field) */
+  field?: string;
+}
+
+/**
+ * How each request is signed, for providers that take an HMAC of the request
+ * instead of the secret itself (SumSub). The secret is never sent.
+ */
+export interface RequestSigning {
+  /** Default: hmac-sha256 */
+  algorithm?: 'hmac-sha256' | 'hmac-sha1' | 'hmac-sha512';
+  /** Credential field holding the signing secret */
+  field: string;
+  signatureHeader: string;
+  /** Default: hex */
+  signatureEncoding?: 'hex' | 'base64';
+  /** Receives the Unix time in seconds the request was signed at */
+  timestampHeader?: string;
+  /** Template over {timestamp}, {method}, {path} (with the query string) and {body}; default: {timestamp}{method}{path}{body} */
+  signedContent?: string;
+}
+
+export interface AuthConfig {
+  type: AuthType;
+  /** Credentials entered by each connecting user */
+  fields: AuthField[];
+  /** OAuth app credentials entered once by an admin */
+  oauth_app_fields?: AuthField[];
+  oauth2?: OAuth2Config;
+  apiKey?: ApiKeyPlacement;
+  signing?: RequestSigning;
+  /** Headers sent with every request; `{field}` is replaced by that credential */
+  headers?: Record<string, string>;
+  testEndpoint?: string;
+}
+
+/**
+ * The credential holding a secret that is sent: the named field, else the
+ * first required password field. The signing secret is never picked.
+ */
+export function secretField(auth: AuthConfig, names: string[]): string | undefined {
+  const sendable = auth.fields.filter(field => field.name !== auth.signing?.field);
+  return names.find(name => sendable.some(field => field.name === name))
+    || sendable.find(field => field.required && field.type === 'password')?.name;
+}
+
+/**
+ * Sign a request per the adapter's signing recipe
+ */
+export function requestSignature(
+  signing: RequestSigning,
+  secret: string,
+  request: { timestamp: string; method: string; path: string; body?: string | Uint8Array }
+): string {
+  const fields: Record<string, string | Uint8Array | undefined> = {
+    '{timestamp}': request.timestamp,
+    '{method}': request.method.toUpperCase(),
+    '{path}': request.path,
+    '{body}': request.body,
+  };
+  const hmac = createHmac((signing.algorithm || 'hmac-sha256').replace('hmac-', ''), secret);
+  for (const part of (signing.signedContent || '{timestamp}{method}{path}{body}').split(/(\{\w+\})/)) {
+    const value = part in fields ? fields[part] : part;
+    if (value) hmac.update(value);
+  }
+  return hmac.digest(signing.signatureEncoding || 'hex');
+}
+
+/**
+ * Scheme types in order of preference when the spec declares no global security
+ */
+const SCHEME_PREFERENCE = ['oauth2', 'http', 'apiKey', 'openIdConnect'];
+
+const OAUTH_APP_FIELDS: AuthField[] = [
+  { name: 'client_id', label: 'Client ID', type: 'text', required: true },
+  { name: 'client_secret', label: 'Client Secret', type: 'password', required: true },
+];
+
+/**
+ * Pick the security scheme the adapter will use: the first one named by the
+ * global security requirements, else the most capable declared scheme
+ */
+function selectScheme(
+  schemes: Record<string, SecurityScheme>,
+  security: SecurityRequirement[] | undefined
+): { name: string; scheme: SecurityScheme; scopes: string[] } | undefined {
+  for (const requirement of security || []) {
+    for (const [name, scopes] of Object.entries(requirement)) {
+      if (schemes[name]) return { name, scheme: schemes[name], scopes };
+    }
+  }
+
+  // Types not in the list, like mutualTLS, go last
+  const rank = (name: string) => {
+    const index = SCHEME_PREFERENCE.indexOf(schemes[name].type);
+    return index === -1 ? SCHEME_PREFERENCE.length : index;
+  };
+  const names = Object.keys(schemes).sort((a, b) => rank(a) - rank(b));
+  return names[0] ? { name: names[0], scheme: schemes[names[0]], scopes: [] } : undefined;
+}
+
+function oauthConfig(flow: OAuthFlow, scopes: string[], pkce: boolean): OAuth2Config {
+  return {
+    ...(flow.authorizationUrl ? { authUrl: flow.authorizationUrl } : {}),
+    ...(flow.tokenUrl ? { tokenUrl: flow.tokenUrl } : {}),
+    scopes: scopes.length > 0 ? scopes : Object.keys(flow.scopes || {}),
+    pkce,
+  };
+}
+
+/**
+ * Auth config for one security scheme; also used for schemes converted from
+ * other source formats
+ */
+export function schemeToAuthConfig(name: string, scheme: SecurityScheme, scopes: string[]): AuthConfig {
+  switch (scheme.type) {
+    case 'http': {
+      const httpScheme = (scheme.scheme || '').toLowerCase();
+      if (httpScheme === 'basic') {
+        return {
+          type: 'basic',
+          fields: [
+            { name: 'username', label: 'Username', type: 'text', required: true },
+            { name: 'password', label: 'Password', type: 'password', required: true },
+          ],
+        };
+      }
+      if (httpScheme === 'bearer') {
+        const jwt = scheme.bearerFormat?.toUpperCase() === 'JWT';
+        return {
+          type: jwt ? 'jwt' : 'bearer',
+          fields: [
+            {
+              name: jwt ? 'token' : 'api_key',
+              label: jwt ? 'Token' : 'API Key',
+              type: 'password',
+              required: true,
+              ...(scheme.description ? { helpText: scheme.description } : {}),
+            },
+          ],
+        };
+      }
+      return { type: 'custom', fields: [] };
+    }
+
+    case 'apiKey':
+      return {
+        type: 'api_key',
+        ...(scheme.name && (scheme.in === 'header' || scheme.in === 'query')
+          ? { apiKey: { in: scheme.in, name: scheme.name } }
+          : {}),
+        fields: [
+          {
+            name: toSnakeCase(scheme.name || name),
+            label: scheme.name || name,
+            type: 'password',
+            required: true,
+            helpText: scheme.description || `Sent in the ${scheme.name} ${scheme.in || 'header'}`,
+          },
+        ],
+      };
+
+    case 'oauth2': {
+      // Authorization code is the user-facing flow; client credentials is server to server
+      const flows = scheme.flows || {};
+      const flow = flows.authorizationCode || flows.clientCredentials;
+      return {
+        type: 'oauth2',
+        fields: [],
+        oauth_app_fields: OAUTH_APP_FIELDS,
+        ...(flow ? { oauth2: oauthConfig(flow, scopes, Boolean(flows.authorizationCode)) } : {}),
+      };
+    }
+
+    case 'openIdConnect':
+      return {
+        type: 'oauth2',
+        fields: [],
+        oauth_app_fields: OAUTH_APP_FIELDS,
+        oauth2: { scopes: scopes.length > 0 ? scopes : ['openid'] },
+      };
+
+    default:
+      return { type: 'custom', fields: [] };
+  }
+}
+
+/**
+ * Derive the authentication config from components.securitySchemes
+ *
+ * Returns undefined when the spec declares no security schemes.
+ */
+export function deriveAuthConfig(spec: OpenAPISpec, resolver: SchemaResolver): AuthConfig | undefined {
+  const schemes: Record<string, SecurityScheme> = {};
+  for (const [name, scheme] of Object.entries(spec.components?.securitySchemes || {})) {
+    schemes[name] = resolver.deref(scheme);
+  }
+
+  const selected = selectScheme(schemes, spec.security);
+  return selected && schemeToAuthConfig(selected.name, selected.scheme, selected.scopes);
+}
+
+/**
+ * Auth config from the spec's securitySchemes, refined by the provider profile
+ */
+export function resolveAuthConfig(
+  slug: string,
+  spec: OpenAPISpec,
+  resolver: SchemaResolver,
+  profile: ProviderProfile
+): AuthConfig {
+  return refineAuthConfig(slug, deriveAuthConfig(spec, resolver), profile, 'spec declares no securitySchemes');
+}
+
+/**
+ * Merge the provider profile's authentication over an auth config derived
+ * from any source document; `missing` explains why nothing was derived
+ */
+export function refineAuthConfig(
+  slug: string,
+  derived: AuthConfig | undefined,
+  profile: ProviderProfile,
+  missing: string
+): AuthConfig {
+  if (!derived && !profile.authentication?.type) {
+    throw new Error(`${slug}: ${missing} and the provider profile sets no authentication type`);
+  }
+  return mergePatch(derived || { type: 'custom', fields: [] }, profile.authentication || {});
+}
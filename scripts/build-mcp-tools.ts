@@ -0,0 +1,62 @@
+/**
+ * Build MCP Tools
+ *
+ * Rebuilds the generated MCP tools of existing adapters from their actions,
+ * for adapters that aren't regenerated from a spec (hand-written, imported
+ * from Postman) or after tuning a provider's budget. Curated tools in the
+ * manifest or overrides.json are kept; only `generated` tools are replaced.
+ *
+ * Usage:
+ *   npx tsx scripts/build-mcp-tools.ts [slug...] [--dry-run]    # all adapters by default
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { DEFAULT_DESCRIPTION_LIMITS } from './description-formatter';
+import { detectLayout, readManifest } from './manifest-loader';
+import { buildMCPTools, estimateTokens } from './mcp-tools';
+import { writeManifestFiles } from './openapi-generator';
+import { loadOverrides } from './overrides';
+import { getProviderProfile } from './providers';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const adaptersDir = resolve('adapters');
+  const slugs = args.filter(arg => !arg.startsWith('--'));
+  if (slugs.length === 0) {
+    slugs.push(...readdirSync(adaptersDir).filter(slug => detectLayout(join(adaptersDir, slug))).sort());
+  }
+
+  for (const slug of slugs) {
+    const adapterDir = join(adaptersDir, slug);
+    const manifest = readManifest(adapterDir);
+    if (!manifest) throw new Error(`${slug}: no manifest in ${adapterDir}`);
+
+    const adapterFile = join(adapterDir, 'adapter.json');
+    const name = existsSync(adapterFile) ? JSON.parse(readFileSync(adapterFile, 'utf8')).name : slug;
+    const curated = [...(loadOverrides(adapterDir)?.mcpTools || []), ...(manifest.mcp?.tools || [])];
+
+    const tools = buildMCPTools(slug, name, manifest.actions, {
+      // Overrides come first, so they win over manifest tools of the same name
+      curated: curated.filter((tool, index) => curated.findIndex(other => other.name === tool.name) === index),
+      budget: getProviderProfile(slug).mcp,
+      descriptionLimit: DEFAULT_DESCRIPTION_LIMITS.mcp,
+    });
+
+    const generated = tools.filter(tool => tool.generated).length;
+    console.log(`${slug}: ${tools.length - generated} curated + ${generated} generated tools, ~${estimateTokens(tools)} tokens`);
+    if (!dryRun) {
+      writeManifestFiles(adapterDir, { ...manifest, mcp: { ...manifest.mcp, tools } } as unknown as Record<string, unknown>);
+    }
+  }
+
+  if (dryRun) console.log('\nDry run - no files written');
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,334 @@
+/**
+ * Adapter Changelogs
+ *
+ * Diffs each adapter against the previous tagged release (see
+ * adapter-diff.ts) and records the result next to it:
+ *
+ * - changes.json: every release, newest first, with added, removed and
+ *   changed actions, triggers, auth fields and MCP tools. The sync endpoint
+ *   (`POST /api/superadmin/adapters/sync`) shows it in the SuperAdmin UI
+ * - CHANGELOG.md: the same history for people, rendered from changes.json
+ *
+ * A release is keyed by the adapter's new `version`; running again before the
+ * next release replaces it. Adapters whose version bump is too small for
+ * their changes are skipped, so a release's notes are never overwritten by
+ * changes made after it.
+ *
+ * Usage:
+ *   npx tsx scripts/changelog.ts [slug...] [--since <ref>] [--date YYYY-MM-DD]
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import {
+  diffAdapter,
+  openSource,
+  type AdapterChange,
+  type AdapterDiff,
+  type AdapterVersion,
+  type BumpLevel,
+} from './adapter-diff';
+
+export const CHANGES_FILE = 'changes.json';
+export const CHANGELOG_FILE = 'CHANGELOG.md';
+
+export type SectionKey = 'actions' | 'triggers' | 'authentication' | 'tools';
+
+/**
+ * An action, trigger, auth field or MCP tool that changed
+ */
+export interface ChangelogEntry {
+  id: string;
+  name?: string;
+  /** Whether any of its changes needs a major bump */
+  breaking: boolean;
+  /** What changed, for changed entries */
+  changes?: AdapterChange[];
+}
+
+export interface ChangelogSection {
+  added: ChangelogEntry[];
+  removed: ChangelogEntry[];
+  changed: ChangelogEntry[];
+}
+
+export interface Release {
+  version: string;
+  /** Absent for an adapter's first release */
+  previousVersion?: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** The git ref the release was compared with */
+  since: string;
+  bump: BumpLevel;
+  breaking: boolean;
+  sections: Record<SectionKey, ChangelogSection>;
+  /** Changes to webhooks and adapter settings */
+  other: AdapterChange[];
+}
+
+/**
+ * Contents of adapters/<slug>/changes.json
+ */
+export interface AdapterChangelog {
+  $schema?: string;
+  slug: string;
+  name: string;
+  /** Newest first */
+  releases: Release[];
+}
+
+export interface ChangelogOptions {
+  /** Registry root (default: cwd) */
+  registryDir?: string;
+  /** Ref to compare with (default: the previous release tag) */
+  since?: string;
+  slugs?: string[];
+  /** Release date (default: today) */
+  date?: string;
+}
+
+export interface ChangelogResult {
+  slug: string;
+  status: 'written' | 'unchanged' | 'skipped';
+  version?: string;
+  /** Why it was skipped */
+  problems: string[];
+}
+
+/**
+ * Where each section's entries live in a change's path, and the codes that
+ * add or remove a whole entry
+ */
+const SECTIONS: Array<{ key: SectionKey; title: string; pattern: RegExp; subject: string; added: string[]; removed: string[] }> = [
+  { key: 'actions', title: 'Actions', pattern: /^actions\.([^.]+)/, subject: 'Action', added: ['action-added'], removed: ['action-removed'] },
+  { key: 'triggers', title: 'Triggers', pattern: /^triggers\.([^.]+)/, subject: 'Trigger', added: ['trigger-added'], removed: ['trigger-removed'] },
+  {
+    key: 'authentication',
+    title: 'Authentication',
+    pattern: /^authentication\.(?:fields|oauth_app_fields)\.([^.]+)/,
+    subject: 'Auth field',
+    added: ['auth-field-added', 'required-auth-field-added'],
+    removed: ['auth-field-removed'],
+  },
+  { key: 'tools', title: 'MCP Tools', pattern: /^mcp\.tools\.([^.]+)/, subject: 'MCP tool', added: ['tool-added'], removed: ['tool-removed'] },
+];
+
+function emptySections(): Record<SectionKey, ChangelogSection> {
+  return Object.fromEntries(SECTIONS.map(({ key }) => [key, { added: [], removed: [], changed: [] }])) as unknown as Record<SectionKey, ChangelogSection>;
+}
+
+/**
+ * Display name of an entry, from the version it's in
+ */
+function nameOf(key: SectionKey, id: string, version: AdapterVersion | undefined): string | undefined {
+  if (!version) return undefined;
+  if (key === 'actions') return version.manifest.actions.find(action => action.id === id)?.name;
+  if (key === 'triggers') return version.manifest.triggers.find(trigger => trigger.id === id)?.name;
+  if (key === 'authentication') {
+    const auth = version.adapter.authentication;
+    return [...(auth?.fields || []), ...(auth?.oauth_app_fields || [])].find(field => field.name === id)?.label;
+  }
+  return undefined;
+}
+
+/**
+ * The release an adapter diff describes
+ */
+export function buildRelease(
+  diff: AdapterDiff,
+  before: AdapterVersion | undefined,
+  after: AdapterVersion,
+  since: string,
+  date: string
+): Release {
+  const release: Release = {
+    version: after.adapter.version,
+    ...(before ? { previousVersion: before.adapter.version } : {}),
+    date,
+    since,
+    bump: diff.required,
+    breaking: diff.required === 'major',
+    sections: emptySections(),
+    other: [],
+  };
+
+  for (const change of diff.changes) {
+    const section = SECTIONS.find(candidate => candidate.pattern.test(change.path));
+    if (!section) {
+      release.other.push(change);
+      continue;
+    }
+    const id = change.path.match(section.pattern)![1];
+    const entries = release.sections[section.key];
+    const breaking = change.level === 'major';
+
+    if (section.added.includes(change.code)) {
+      entries.added.push({ id, name: nameOf(section.key, id, after), breaking });
+    } else if (section.removed.includes(change.code)) {
+      entries.removed.push({ id, name: nameOf(section.key, id, before), breaking });
+    } else {
+      let entry = entries.changed.find(candidate => candidate.id === id);
+      if (!entry) {
+        entry = { id, name: nameOf(section.key, id, after), breaking: false, changes: [] };
+        entries.changed.push(entry);
+      }
+      entry.changes!.push(change);
+      entry.breaking ||= breaking;
+    }
+  }
+  return release;
+}
+
+/**
+ * Add a release to an adapter's history, replacing an earlier run for the
+ * same version but keeping its date
+ */
+export function mergeRelease(changelog: AdapterChangelog, release: Release): AdapterChangelog {
+  const existing = changelog.releases.find(candidate => candidate.version === release.version);
+  const merged = existing ? { ...release, date: existing.date } : release;
+  return {
+    ...changelog,
+    releases: [merged, ...changelog.releases.filter(candidate => candidate.version !== release.version)],
+  };
+}
+
+const BREAKING = ' **(breaking)**';
+
+/**
+ * A change's message without the entry it's listed under, e.g. "Config param
+ * "email" is now required" under list_calls
+ */
+function detail(change: AdapterChange, prefix: string): string {
+  const message = change.message.startsWith(prefix) ? change.message.slice(prefix.length) : change.message;
+  return `${message.charAt(0).toUpperCase()}${message.slice(1)}${change.level === 'major' ? BREAKING : ''}`;
+}
+
+function entryLine(entry: ChangelogEntry): string {
+  return `- \`${entry.id}\`${entry.name ? ` ${entry.name}` : ''}${entry.breaking ? BREAKING : ''}`;
+}
+
+function renderRelease(release: Release): string[] {
+  const lines = [`## ${release.version} (${release.date})`, ''];
+  if (!release.previousVersion) {
+    lines.push('First release.', '');
+    return lines;
+  }
+  const kind = release.bump === 'none' ? 'Version-only' : `${release.bump.charAt(0).toUpperCase()}${release.bump.slice(1)}`;
+  lines.push(`${kind} release since ${release.previousVersion} (compared with \`${release.since}\`).${release.breaking ? ' Contains breaking changes.' : ''}`, '');
+
+  for (const section of SECTIONS) {
+    const entries = release.sections[section.key];
+    if (entries.added.length + entries.removed.length + entries.changed.length === 0) continue;
+    lines.push(`### ${section.title}`, '');
+    for (const [heading, list] of [['Added', entries.added], ['Removed', entries.removed], ['Changed', entries.changed]] as const) {
+      if (list.length === 0) continue;
+      lines.push(`#### ${heading}`, '');
+      for (const entry of list) {
+        lines.push(entryLine(entry));
+        for (const change of entry.changes || []) lines.push(`  - ${detail(change, `${section.subject} ${entry.id} `)}`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (release.other.length > 0) {
+    lines.push('### Other Changes', '');
+    for (const change of release.other) lines.push(`- ${detail(change, '')}`);
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * CHANGELOG.md for an adapter's history
+ */
+export function renderChangelog(changelog: AdapterChangelog): string {
+  const lines = [
+    `# ${changelog.name} Changelog`,
+    '',
+    `Generated from manifest diffs by \`npm run changelog\`; edit ${CHANGES_FILE} rather than this file.`,
+    '',
+    ...changelog.releases.flatMap(renderRelease),
+  ];
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/**
+ * The newest tag reachable from HEAD. Changelogs are written before the new
+ * release is tagged, so this is the release before it.
+ */
+export function previousReleaseTag(registryDir: string = process.cwd()): string | undefined {
+  return git(['tag', '--merged', 'HEAD', '--sort=-creatordate'], registryDir).split('\n').find(Boolean);
+}
+
+/**
+ * Diff the working tree's adapters against the previous release and write
+ * their changes.json and CHANGELOG.md
+ */
+export function writeChangelogs(options: ChangelogOptions = {}): ChangelogResult[] {
+  const registryDir = resolve(options.registryDir || '.');
+  const since = options.since || previousReleaseTag(registryDir);
+  if (!since) throw new Error('No release tag found; pass --since <ref>');
+  const date = options.date || new Date().toISOString().slice(0, 10);
+
+  const base = openSource(since, registryDir);
+  const head = openSource('.', registryDir);
+  const slugs = options.slugs && options.slugs.length > 0 ? options.slugs : head.slugs();
+
+  return slugs.map(slug => {
+    const after = head.adapter(slug);
+    if (!after) throw new Error(`Adapter "${slug}" is not in the working tree`);
+    const before = base.adapter(slug);
+    const diff = diffAdapter(slug, base, head);
+    if (diff.problems.length > 0) return { slug, status: 'skipped', version: after.adapter.version, problems: diff.problems };
+    if (diff.status === 'unchanged') return { slug, status: 'unchanged', version: after.adapter.version, problems: [] };
+
+    const adapterDir = join(registryDir, 'adapters', slug);
+    const changesFile = join(adapterDir, CHANGES_FILE);
+    const previous: AdapterChangelog = existsSync(changesFile)
+      ? JSON.parse(readFileSync(changesFile, 'utf8'))
+      : { $schema: '../../schemas/changes.schema.json', slug, name: after.adapter.name, releases: [] };
+
+    const changelog = mergeRelease({ ...previous, name: after.adapter.name }, buildRelease(diff, before, after, since, date));
+    writeFileSync(changesFile, `${JSON.stringify(changelog, null, 2)}\n`);
+    writeFileSync(join(adapterDir, CHANGELOG_FILE), renderChangelog(changelog));
+    return { slug, status: 'written', version: after.adapter.version, problems: [] };
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const slugs: string[] = [];
+  let since: string | undefined;
+  let date: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--since') since = args[++i];
+    else if (args[i] === '--date') date = args[++i];
+    else slugs.push(args[i]);
+  }
+
+  const results = writeChangelogs({ since, date, slugs });
+  for (const result of results) {
+    if (result.status === 'written') console.log(`✓ ${result.slug} ${result.version}`);
+    else if (result.status === 'unchanged') console.log(`- ${result.slug}: no changes`);
+    else {
+      console.log(`✗ ${result.slug}: skipped`);
+      for (const problem of result.problems) console.log(`    ${problem}`);
+    }
+  }
+
+  if (results.some(result => result.status === 'skipped')) process.exit(1);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Description Formatter
+ *
+ * Turns provider descriptions (HTML or markdown, often with relative doc
+ * links) into clean markdown plus a one-line summary. These strings go
+ * straight into the Encompass UI, AI context and MCP tool descriptions.
+ */
+
+export interface DescriptionLimits {
+  /** One-line summary shown in lists and pickers */
+  summary: number;
+  /** Full markdown description stored on actions and triggers */
+  description: number;
+  /** MCP tool descriptions */
+  mcp: number;
+}
+
+export const DEFAULT_DESCRIPTION_LIMITS: DescriptionLimits = {
+  summary: 120,
+  description: 2000,
+  mcp: 1024,
+};
+
+export interface FormattedDescription {
+  description: string;
+  summary: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Resolve a link against the provider documentation URL
+ */
+function resolveLink(href: string, baseUrl?: string): string {
+  if (!baseUrl || /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#')) {
+    return href;
+  }
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[2] ?? match[3] ?? match[4]) : undefined;
+}
+
+/**
+ * Convert provider HTML to markdown. Plain markdown passes through with
+ * only its relative links resolved.
+ */
+export function htmlToMarkdown(input: string, baseUrl?: string): string {
+  let text = input.replace(/\r\n?/g, '\n');
+
+  if (/<\/?[a-z][^>]*>/i.test(text)) {
+    text = text
+      .replace(/<pre[\s\S]*?<\/pre>|\n/gi, match => match === '\n' ? ' ' : match)
+      .replace(/<pre[^>]*>\s*(?:<code[^>]*>)?([\s\S]*?)(?:<\/code>)?\s*<\/pre>/gi,
+        (_, code: string) => `\n\n\`\`\`\n${decodeEntities(code.replace(/<[^>]+>/g, '')).trim()}\n\`\`\`\n\n`)
+      .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, (_, code: string) => `\`${code.replace(/<[^>]+>/g, '')}\``)
+      .replace(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi, (_, tag: string, label: string) => {
+        const href = attribute(tag, 'href');
+        const text = label.replace(/<[^>]+>/g, '').trim();
+        return href ? `[${text}](${href})` : text;
+      })
+      .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '_$2_')
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, heading: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${heading.trim()}\n\n`)
+      .replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+        let n = 0;
+        return `\n\n${items.replace(/<li[^>]*>/gi, () => `\n${++n}. `)}\n\n`;
+      })
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/?(ul|ol)[^>]*>/gi, '\n\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|table|tr)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '');
+    text = decodeEntities(text);
+  }
+
+  // Resolve relative markdown links, including ones we just produced
+  text = text.replace(/\[([^\]]*)\]\(([^)\s]+)\)/g, (_, label: string, href: string) =>
+    `[${label}](${resolveLink(href, baseUrl)})`);
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').replace(/^ (?![-\d])/, '').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Strip markdown syntax for single-line contexts
+ */
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/\*\*([^*]*)\*\*/g, '$1')
+    .replace(/^#+\s*/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cut text to a length limit at a word boundary
+ */
+export function truncate(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+
+  const cut = text.slice(0, limit - 1);
+  const boundary = cut.lastIndexOf(' ');
+  return `${(boundary > limit / 2 ? cut.slice(0, boundary) : cut).replace(/[\s,;:.]+$/, '')}…`;
+}
+
+/**
+ * First sentence of the description as plain text
+ */
+export function summarize(markdown: string, limit: number = DEFAULT_DESCRIPTION_LIMITS.summary): string {
+  const firstParagraph = markdown.split(/\n\s*\n/).find(paragraph => toPlainText(paragraph)) || '';
+  const plain = toPlainText(firstParagraph);
+  const sentence = plain.match(/^(.+?[.!?])\s+(?=[A-Z])/)?.[1] ?? plain;
+  return truncate(sentence, limit);
+}
+
+/**
+ * Format a provider description for the manifest
+ */
+export function formatDescription(
+  raw: string,
+  baseUrl?: string,
+  limits: DescriptionLimits = DEFAULT_DESCRIPTION_LIMITS
+): FormattedDescription {
+  const markdown = htmlToMarkdown(raw, baseUrl);
+  return {
+    description: truncate(markdown, limits.description),
+    summary: summarize(markdown, limits.summary),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Regenerate All OpenAPI-Backed Adapters
+ *
+ * Runs the OpenAPI generator for every adapter in generate.config.ts and
+ * prints a summary table.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-all.ts [options]
+ *
+ * Options:
+ *   --only <slug,...>        Only regenerate these adapters
+ *   --spec <slug>=<source>   Spec file or URL for one adapter (repeatable)
+ *   --spec-dir <dir>         Use <dir>/<slug>.{json,yaml,yml} for every adapter that has one
+ *   --out <dir>              Output directory (default: adapters)
+ *   --offline                Only use cached copies of remote specs
+ *   --refresh                Download remote specs again even when they are cached
+ *   --no-cache               Don't read or write the spec cache
+ *   --cache-dir <dir>        Spec cache directory (default: .cache/specs)
+ *   --dry-run                Generate without writing files
+ *
+ * Specs may be JSON or YAML, OpenAPI 3 or Swagger 2.0. With --spec or --spec-dir
+ * pointing at local files, or with a warm cache, the run needs no network.
+ * Hand-curated adapters/<slug>/overrides.json files are applied to the output.
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { generateAndWriteAdapter } from './openapi-generator';
+import { GENERATION_CONFIG, type OpenAPIAdapterSlug } from './generate.config';
+import type { SpecCacheOptions } from './spec-loader';
+
+const SPEC_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+interface GenerateAllOptions {
+  only?: string[];
+  specs: Record<string, string>;
+  specDir?: string;
+  outDir: string;
+  dryRun: boolean;
+  specCache: SpecCacheOptions;
+}
+
+interface AdapterSummary {
+  slug: string;
+  actions: number;
+  triggers: number;
+  categories: string[];
+  unmatchedOverrides?: string[];
+  error?: string;
+}
+
+function parseArgs(argv: string[]): GenerateAllOptions {
+  const options: GenerateAllOptions = { specs: {}, outDir: 'adapters', dryRun: false, specCache: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--only':
+        options.only = next().split(',').map(slug => slug.trim()).filter(Boolean);
+        break;
+      case '--spec': {
+        const [slug, source] = next().split(/=(.*)/s);
+        if (!slug || !source) throw new Error('--spec expects <slug>=<source>');
+        options.specs[slug] = source;
+        break;
+      }
+      case '--spec-dir':
+        options.specDir = next();
+        break;
+      case '--out':
+        options.outDir = next();
+        break;
+      case '--offline':
+        options.specCache.offline = true;
+        break;
+      case '--refresh':
+        options.specCache.refresh = true;
+        break;
+      case '--no-cache':
+        options.specCache.dir = false;
+        break;
+      case '--cache-dir':
+        options.specCache.dir = next();
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Pick the spec source for an adapter: --spec, then --spec-dir, then config
+ */
+function resolveSpecSource(slug: string, options: GenerateAllOptions): string {
+  if (options.specs[slug]) return options.specs[slug];
+
+  if (options.specDir) {
+    const localSpec = SPEC_EXTENSIONS
+      .map(extension => join(options.specDir!, `${slug}${extension}`))
+      .find(file => existsSync(file));
+    if (localSpec) return localSpec;
+  }
+
+  return GENERATION_CONFIG[slug as OpenAPIAdapterSlug].spec;
+}
+
+function printSummary(summaries: AdapterSummary[]): void {
+  const rows = summaries.map(summary => [
+    summary.slug,
+    summary.error ? '-' : String(summary.actions),
+    summary.error ? '-' : String(summary.triggers),
+    summary.error ? '-' : String(summary.categories.length),
+    summary.error
+      ? `FAILED: ${summary.error}`
+      : summary.categories.slice(0, 6).join(', ') + (summary.categories.length > 6 ? ', ...' : ''),
+  ]);
+  const header = ['Adapter', 'Actions', 'Triggers', 'Categories', 'Top categories'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column])).join('  ');
+
+  console.log('\n' + format(header));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+
+  const stale = summaries.flatMap(summary =>
+    (summary.unmatchedOverrides || []).map(entry => `${summary.slug}/overrides.json: ${entry}`)
+  );
+  if (stale.length > 0) {
+    console.log(`\nOverride entries that match no generated action or trigger:`);
+    stale.forEach(entry => console.log(`  - ${entry}`));
+  }
+}
+
+async function generateAll(options: GenerateAllOptions): Promise<AdapterSummary[]> {
+  const slugs = Object.keys(GENERATION_CONFIG) as OpenAPIAdapterSlug[];
+
+  const unknown = (options.only || []).filter(slug => !(slug in GENERATION_CONFIG));
+  if (unknown.length > 0) {
+    throw new Error(`No generation config for: ${unknown.join(', ')}`);
+  }
+
+  const summaries: AdapterSummary[] = [];
+
+  for (const slug of slugs) {
+    if (options.only && !options.only.includes(slug)) continue;
+
+    const config = GENERATION_CONFIG[slug];
+    const source = resolveSpecSource(slug, options);
+
+    console.log(`\n▶ ${config.name} (${source})`);
+    try {
+      const { stats } = await generateAndWriteAdapter(
+        slug,
+        config.name,
+        source,
+        config.events,
+        {
+          outDir: options.dryRun ? undefined : resolve(options.outDir),
+          overridesDir: resolve('adapters'),
+          specCache: options.specCache,
+          descriptionLimits: config.descriptionLimits,
+          layout: config.layout,
+        }
+      );
+      summaries.push({ slug, ...stats });
+    } catch (error) {
+      summaries.push({ slug, actions: 0, triggers: 0, categories: [], error: (error as Error).message });
+    }
+  }
+
+  return summaries;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const summaries = await generateAll(options);
+
+  printSummary(summaries);
+
+  if (options.dryRun) {
+    console.log('\nDry run - no files written');
+  }
+
+  if (summaries.some(summary => summary.error)) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+/**
+ * Generation Config
+ *
+ * Per-adapter settings for `npm run generate:all`. Every adapter in
+ * OPENAPI_SOURCES must have an entry here.
+ */
+
+import { OPENAPI_SOURCES } from './openapi-generator';
+import type { DescriptionLimits } from './description-formatter';
+import type { ManifestLayout } from './types';
+import type { EventFilter } from './webhook-events';
+import { STRIPE_WEBHOOK_EVENTS } from './providers/stripe';
+
+export interface AdapterGenerationConfig {
+  /** Display name written to adapter.json */
+  name: string;
+  /** Spec URL or local file path */
+  spec: string;
+  /** Allow/deny filter for the events the spec declares; the allow list is the event list for specs that declare none */
+  events?: EventFilter;
+  /** Overrides for description, summary and MCP description lengths */
+  descriptionLimits?: Partial<DescriptionLimits>;
+  /** Manifest layout; large adapters use 'sharded' (default: keep the current layout) */
+  layout?: ManifestLayout;
+}
+
+export type OpenAPIAdapterSlug = keyof typeof OPENAPI_SOURCES;
+
+export const GENERATION_CONFIG: Record<OpenAPIAdapterSlug, AdapterGenerationConfig> = {
+  stripe: {
+    name: 'Stripe',
+    spec: OPENAPI_SOURCES.stripe,
+    events: { allow: STRIPE_WEBHOOK_EVENTS },
+    layout: 'sharded',
+  },
+  twilio: {
+    name: 'Twilio',
+    spec: OPENAPI_SOURCES.twilio,
+  },
+  sendgrid: {
+    name: 'SendGrid',
+    spec: OPENAPI_SOURCES.sendgrid,
+  },
+};
@@ -0,0 +1,160 @@
+/**
+ * JSON Formatting
+ *
+ * Writes JSON laid out like an existing file, so scripts that rewrite a
+ * hand-written manifest (build-mcp-tools, data fixes) only change the lines
+ * whose content changed. Objects and arrays that were on one line in the
+ * reference stay on one line; the rest are indented by two spaces as
+ * `JSON.stringify(value, null, 2)` would. New objects and arrays go on one
+ * line when the reference writes short ones that way and they fit.
+ */
+
+/**
+ * Whether each object and array in a file was written on one line, keyed by
+ * property name or array element (see elementKey)
+ */
+interface LayoutNode {
+  inline: boolean;
+  children: Map<string, LayoutNode>;
+}
+
+const INDENT = '  ';
+
+const LITERAL = /-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null/y;
+
+/** New objects and arrays longer than this, indent included, get a line per entry */
+const MAX_INLINE_WIDTH = 120;
+
+/**
+ * Array elements are matched by `id` or `name` when they have one, so
+ * inserting an action doesn't shift the layout of the ones after it
+ */
+function elementKey(value: unknown, index: number): string {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const { id, name } = value as Record<string, unknown>;
+    if (typeof id === 'string') return `id:${id}`;
+    if (typeof name === 'string') return `name:${name}`;
+  }
+  return String(index);
+}
+
+/**
+ * Parse the layout of a JSON text; throws on invalid JSON
+ */
+function scanLayout(text: string): { node?: LayoutNode; inlineStyle: boolean } {
+  let pos = 0;
+  let line = 0;
+  let inlineStyle = false;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) throw new Error(`Expected "${char}" at offset ${pos}`);
+    pos++;
+  };
+
+  function parseValue(): { value: unknown; node?: LayoutNode } {
+    skipWhitespace();
+    const char = text[pos];
+    if (char === '{' || char === '[') return parseContainer(char);
+    if (char === '"') {
+      const start = pos++;
+      while (text[pos] !== '"') pos += text[pos] === '\\' ? 2 : 1;
+      pos++;
+      return { value: JSON.parse(text.slice(start, pos)) };
+    }
+    LITERAL.lastIndex = pos;
+    const literal = LITERAL.exec(text);
+    if (!literal) throw new Error(`Unexpected "${char}" at offset ${pos}`);
+    pos += literal[0].length;
+    return { value: JSON.parse(literal[0]) };
+  }
+
+  function parseContainer(open: '{' | '['): { value: unknown; node: LayoutNode } {
+    const close = open === '{' ? '}' : ']';
+    const startLine = line;
+    const node: LayoutNode = { inline: false, children: new Map() };
+    const value: unknown = open === '{' ? {} : [];
+    pos++;
+    skipWhitespace();
+    while (text[pos] !== close) {
+      if (open === '{') {
+        const key = parseValue().value as string;
+        expect(':');
+        const member = parseValue();
+        (value as Record<string, unknown>)[key] = member.value;
+        if (member.node) node.children.set(key, member.node);
+      } else {
+        const element = parseValue();
+        const list = value as unknown[];
+        if (element.node) node.children.set(elementKey(element.value, list.length), element.node);
+        list.push(element.value);
+      }
+      skipWhitespace();
+      if (text[pos] === ',') pos++;
+      skipWhitespace();
+    }
+    pos++;
+    node.inline = line === startLine;
+    const empty = Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+    if (node.inline && !empty) inlineStyle = true;
+    return { value, node };
+  }
+
+  const { node } = parseValue();
+  return { node, inlineStyle };
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return value !== null && typeof value === 'object';
+}
+
+function entriesOf(value: Record<string, unknown> | unknown[]): Array<[string, unknown, string]> {
+  return Array.isArray(value)
+    ? value.map((item, index) => [String(index), item, elementKey(item, index)])
+    : Object.entries(value).filter(([, item]) => item !== undefined).map(([key, item]) => [key, item, key]);
+}
+
+/**
+ * One-line form: `{ "type": "string" }` and `["a", "b"]`
+ */
+function inlineJson(value: unknown): string {
+  if (!isContainer(value)) return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(inlineJson).join(', ')}]`;
+  const entries = entriesOf(value);
+  if (entries.length === 0) return '{}';
+  return `{ ${entries.map(([key, item]) => `${JSON.stringify(key)}: ${inlineJson(item)}`).join(', ')} }`;
+}
+
+function printJson(value: unknown, node: LayoutNode | undefined, indent: string, inlineStyle: boolean, prefixWidth: number): string {
+  if (!isContainer(value)) return JSON.stringify(value);
+  const entries = entriesOf(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  if (entries.length === 0) return `${open}${close}`;
+
+  const inline = node
+    ? node.inline
+    : inlineStyle && indent.length + prefixWidth + inlineJson(value).length <= MAX_INLINE_WIDTH;
+  if (inline) return inlineJson(value);
+
+  const inner = indent + INDENT;
+  const lines = entries.map(([key, item, layoutKey]) => {
+    const prefix = Array.isArray(value) ? '' : `${JSON.stringify(key)}: `;
+    return `${inner}${prefix}${printJson(item, node?.children.get(layoutKey), inner, inlineStyle, prefix.length)}`;
+  });
+  return `${open}\n${lines.join(',\n')}\n${indent}${close}`;
+}
+
+/**
+ * JSON for a value, laid out like the reference text when there is one
+ */
+export function formatJson(value: unknown, reference?: string): string {
+  if (reference === undefined) return `${JSON.stringify(value, null, 2)}\n`;
+  const { node, inlineStyle } = scanLayout(reference);
+  return `${printJson(value, node, '', inlineStyle, 0)}\n`;
+}
@@ -0,0 +1,216 @@
+/**
+ * Manifest Loader
+ *
+ * Reads adapter manifests in either layout (see manifest-shards.ts):
+ *
+ * - readManifest(): the full manifest from an adapter directory, for scripts
+ *   that work on whole manifests
+ * - createManifestLoader(): lazy access from a directory or a base URL; the
+ *   index is read first and shards only when an entry in them is requested,
+ *   so looking up one Stripe action doesn't parse every other category
+ *
+ * Entries from shards come back with the shard's `$defs` inlined again, the
+ * same shape they have in a single manifest.json.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import type {
+  ActionDefinition,
+  AdapterManifest,
+  ManifestIndex,
+  ManifestLayout,
+  ManifestShard,
+  MCPToolDefinition,
+  TriggerDefinition,
+} from './types';
+import {
+  INDEX_FILE,
+  MANIFEST_FILE,
+  SHARD_DIR,
+  assembleManifest,
+  hydrateEntry,
+} from './manifest-shards';
+
+export interface ManifestLoader {
+  layout(): Promise<ManifestLayout>;
+  /** Ids, names and categories of every entry, with the shard each lives in */
+  index(): Promise<ManifestIndex>;
+  action(id: string): Promise<ActionDefinition | undefined>;
+  trigger(id: string): Promise<TriggerDefinition | undefined>;
+  /** Actions and triggers of one category, reading only its shard */
+  category(id: string): Promise<Pick<AdapterManifest, 'actions' | 'triggers'>>;
+  tools(): Promise<MCPToolDefinition[]>;
+  /** The whole manifest, reading every shard */
+  manifest(): Promise<AdapterManifest>;
+}
+
+/**
+ * Layout of the manifest in an adapter directory, if it has one
+ */
+export function detectLayout(adapterDir: string): ManifestLayout | undefined {
+  if (existsSync(join(adapterDir, INDEX_FILE))) return 'sharded';
+  if (existsSync(join(adapterDir, MANIFEST_FILE))) return 'single';
+  return undefined;
+}
+
+/**
+ * Manifest files present in an adapter directory, relative to it
+ */
+export function listManifestFiles(adapterDir: string): string[] {
+  const files = [MANIFEST_FILE, INDEX_FILE].filter(file => existsSync(join(adapterDir, file)));
+  const shardDir = join(adapterDir, SHARD_DIR);
+  if (existsSync(shardDir)) {
+    files.push(...readdirSync(shardDir).filter(file => file.endsWith('.json')).sort().map(file => `${SHARD_DIR}/${file}`));
+  }
+  return files;
+}
+
+/**
+ * Read an adapter's full manifest in either layout
+ */
+export function readManifest(adapterDir: string): AdapterManifest | undefined {
+  const layout = detectLayout(adapterDir);
+  if (!layout) return undefined;
+
+  const read = (file: string) => JSON.parse(readFileSync(join(adapterDir, file), 'utf8'));
+  if (layout === 'single') return read(MANIFEST_FILE);
+
+  const index: ManifestIndex = read(INDEX_FILE);
+  const shards: Record<string, ManifestShard> = {};
+  for (const shard of shardsOf(index)) {
+    if (existsSync(join(adapterDir, shard))) shards[shard] = read(shard);
+  }
+  return assembleManifest(index, shards);
+}
+
+/**
+ * Every shard the index points at
+ */
+export function shardsOf(index: ManifestIndex): string[] {
+  return [...new Set([
+    ...index.categories.map(category => category.shard),
+    ...index.actions.map(action => action.shard),
+    ...index.triggers.map(trigger => trigger.shard),
+    ...(index.mcp ? [index.mcp.shard] : []),
+  ])];
+}
+
+/**
+ * Index for a single-file manifest, so both layouts answer the same queries
+ */
+function singleFileIndex(manifest: AdapterManifest): ManifestIndex {
+  return {
+    categories: (manifest.categories || []).map(category => ({ ...category, shard: MANIFEST_FILE })),
+    actions: manifest.actions.map(({ id, name, category }) => ({ id, name, category, shard: MANIFEST_FILE })),
+    triggers: manifest.triggers.map(({ id, name, event, category }) => ({
+      id, name, event, ...(category ? { category } : {}), shard: MANIFEST_FILE,
+    })),
+    ...(manifest.webhooks ? { webhooks: manifest.webhooks } : {}),
+    ...(manifest.mcp ? { mcp: { shard: MANIFEST_FILE, tools: manifest.mcp.tools.map(tool => tool.name) } } : {}),
+  };
+}
+
+/**
+ * Read a JSON file relative to an adapter directory or base URL;
+ * undefined when it doesn't exist
+ */
+function createReader(source: string): (file: string) => Promise<any> {
+  if (/^https?:\/\//i.test(source)) {
+    const base = source.endsWith('/') ? source : `${source}/`;
+    return async file => {
+      const response = await fetch(new URL(file, base));
+      if (response.status === 404) return undefined;
+      if (!response.ok) throw new Error(`Failed to fetch ${file} from ${base}: ${response.status}`);
+      return response.json();
+    };
+  }
+  return async file => existsSync(join(source, file)) ? JSON.parse(readFileSync(join(source, file), 'utf8')) : undefined;
+}
+
+/**
+ * Lazy manifest access for an adapter directory or the base URL of one
+ * (e.g. a raw GitHub URL), in either layout
+ */
+export function createManifestLoader(source: string): ManifestLoader {
+  const read = createReader(source);
+  const files = new Map<string, Promise<any>>();
+  const load = (file: string) => {
+    if (!files.has(file)) files.set(file, read(file));
+    return files.get(file)!;
+  };
+
+  let indexState: Promise<{ layout: ManifestLayout; index: ManifestIndex }> | undefined;
+  const state = () => indexState ??= (async () => {
+    const index: ManifestIndex | undefined = await load(INDEX_FILE);
+    if (index) return { layout: 'sharded' as const, index };
+
+    const manifest: AdapterManifest | undefined = await load(MANIFEST_FILE);
+    if (!manifest) throw new Error(`No ${INDEX_FILE} or ${MANIFEST_FILE} in ${source}`);
+    return { layout: 'single' as const, index: singleFileIndex(manifest) };
+  })();
+
+  async function shard(file: string): Promise<ManifestShard> {
+    const content = await load(file);
+    if (!content) throw new Error(`Shard ${file} not found in ${source}`);
+    // A single manifest.json is read as one shard holding everything
+    return file === MANIFEST_FILE ? { ...content, tools: content.mcp?.tools } : content;
+  }
+
+  async function entry<T extends object>(
+    kind: 'actions' | 'triggers',
+    id: string
+  ): Promise<T | undefined> {
+    const { index } = await state();
+    const pointer = index[kind].find(item => item.id === id);
+    if (!pointer) return undefined;
+
+    const content = await shard(pointer.shard);
+    const found = (content[kind] as Array<{ id: string }> | undefined)?.find(item => item.id === id);
+    return found && hydrateEntry(found as T, content.$defs);
+  }
+
+  return {
+    async layout() {
+      return (await state()).layout;
+    },
+    async index() {
+      return (await state()).index;
+    },
+    action(id) {
+      return entry<ActionDefinition>('actions', id);
+    },
+    trigger(id) {
+      return entry<TriggerDefinition>('triggers', id);
+    },
+    async category(id) {
+      const { index } = await state();
+      const pointer = index.categories.find(category => category.id === id);
+      if (!pointer) return { actions: [], triggers: [] };
+
+      const content = await shard(pointer.shard);
+      return {
+        actions: (content.actions || [])
+          .filter(action => action.category === id)
+          .map(action => hydrateEntry(action, content.$defs)),
+        triggers: (content.triggers || [])
+          .filter(trigger => trigger.category === id)
+          .map(trigger => hydrateEntry(trigger, content.$defs)),
+      };
+    },
+    async tools() {
+      const { index } = await state();
+      if (!index.mcp) return [];
+      const content = await shard(index.mcp.shard);
+      return (content.tools || []).map(tool => hydrateEntry(tool, content.$defs));
+    },
+    async manifest() {
+      const { layout, index } = await state();
+      if (layout === 'single') return load(MANIFEST_FILE);
+
+      const shards: Record<string, ManifestShard> = {};
+      await Promise.all(shardsOf(index).map(async file => { shards[file] = await shard(file); }));
+      return assembleManifest(index, shards);
+    },
+  };
+}
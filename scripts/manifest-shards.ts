@@ -0,0 +1,339 @@
+/**
+ * Manifest Shards
+ *
+ * Splits a manifest into the sharded layout and joins it back:
+ *
+ * - manifest.index.json: categories, action and trigger ids and names, and
+ *   the shard each one lives in
+ * - manifest/<category>.json: the full actions and triggers of one category
+ * - manifest/_uncategorized.json: triggers without a category
+ * - manifest/_mcp.json: MCP tools
+ *
+ * Sub-schemas repeated within a shard are stored once in the shard's `$defs`
+ * and referenced as `#/$defs/<name>`. Each embedded schema keeps its own
+ * `$defs`, whose names the shard's never reuse. When entries are read back,
+ * references to the shard's `$defs` are inlined again, so every entry equals
+ * the one in a single manifest.json.
+ */
+
+import type {
+  AdapterManifest,
+  CategoryIndexEntry,
+  JSONSchema,
+  ManifestIndex,
+  ManifestLayout,
+  ManifestShard,
+} from './types';
+
+export const MANIFEST_FILE = 'manifest.json';
+export const INDEX_FILE = 'manifest.index.json';
+export const SHARD_DIR = 'manifest';
+
+const UNCATEGORIZED_SHARD = '_uncategorized';
+const MCP_SHARD = '_mcp';
+
+/** Repeated sub-schemas shorter than this stay inline; a $ref would save little */
+const MIN_SHARED_SCHEMA_LENGTH = 80;
+
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties'];
+const SCHEMA_LIST_KEYWORDS = ['anyOf', 'oneOf', 'allOf', 'prefixItems'];
+const SCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not', 'contains', 'if', 'then', 'else'];
+
+type SchemaHost = Record<string, unknown>;
+
+/** Embedded root schemas of each entry kind */
+const ROOT_SCHEMA_KEYS = ['configSchema', 'responseSchema', 'payloadSchema', 'inputSchema'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function shardPath(shard: string): string {
+  return `${SHARD_DIR}/${shard}.json`;
+}
+
+/**
+ * Apply fn to each direct sub-schema, with a name hint for $defs
+ */
+function mapSubschemas(schema: JSONSchema, hint: string, fn: (child: JSONSchema, hint: string) => JSONSchema): JSONSchema {
+  const result: JSONSchema = { ...schema };
+
+  for (const keyword of SCHEMA_MAP_KEYWORDS) {
+    const map = schema[keyword];
+    if (!isObject(map)) continue;
+    result[keyword] = Object.fromEntries(
+      Object.entries(map).map(([key, child]) => [key, isObject(child) ? fn(child, key) : child])
+    );
+  }
+  for (const keyword of SCHEMA_LIST_KEYWORDS) {
+    const list = schema[keyword];
+    if (!Array.isArray(list)) continue;
+    result[keyword] = list.map((child, i) => isObject(child) ? fn(child, `${hint}_${i + 1}`) : child);
+  }
+  for (const keyword of SCHEMA_KEYWORDS) {
+    const child = schema[keyword];
+    if (isObject(child)) result[keyword] = fn(child, keyword === 'items' ? `${hint}_item` : hint);
+  }
+
+  return result;
+}
+
+/**
+ * Names of the `#/$defs/<name>` references anywhere under a value
+ */
+function collectDefRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectDefRefs(item, refs));
+  } else if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      const name = key === '$ref' && typeof child === 'string' ? child.match(/^#\/\$defs\/(.+)$/)?.[1] : undefined;
+      if (name) refs.add(name);
+      else collectDefRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Names of the `$defs` embedded schemas bring along themselves
+ */
+function embeddedDefNames(entries: SchemaHost[]): Set<string> {
+  const names = new Set<string>();
+  for (const entry of entries) {
+    for (const key of ROOT_SCHEMA_KEYS) {
+      const defs = isObject(entry[key]) ? (entry[key] as JSONSchema).$defs : undefined;
+      if (isObject(defs)) Object.keys(defs).forEach(name => names.add(name));
+    }
+  }
+  return names;
+}
+
+/**
+ * Collects the $defs of one shard, keyed by content so each schema is stored
+ * once. Names in `taken` belong to embedded schemas' own $defs.
+ */
+function createDefsCollector(taken: Set<string>) {
+  const defs: Record<string, JSONSchema> = {};
+  const byContent = new Map<string, string>();
+
+  return {
+    defs,
+    nameFor(content: string): string | undefined {
+      return byContent.get(content);
+    },
+    /** Claim a free name based on `base`; the schema is filled in by set() */
+    reserve(base: string): string {
+      const clean = base.replace(/[^A-Za-z0-9_.-]+/g, '_') || 'schema';
+      let name = clean;
+      for (let n = 2; defs[name] || taken.has(name); n++) name = `${clean}_${n}`;
+      defs[name] = {};
+      return name;
+    },
+    set(name: string, schema: JSONSchema, content: string): void {
+      defs[name] = schema;
+      byContent.set(content, name);
+    },
+  };
+}
+
+/**
+ * Store repeated sub-schemas of a shard's entries once under $defs
+ */
+function dedupeShard(shard: ManifestShard): ManifestShard {
+  const entries = [...(shard.actions || []), ...(shard.triggers || []), ...(shard.tools || [])] as unknown as SchemaHost[];
+  const collector = createDefsCollector(embeddedDefNames(entries));
+
+  const counts = new Map<string, number>();
+  const count = (schema: JSONSchema, hint: string): JSONSchema => {
+    const content = JSON.stringify(schema);
+    counts.set(content, (counts.get(content) || 0) + 1);
+    return mapSubschemas(schema, hint, count);
+  };
+  for (const entry of entries) {
+    for (const key of ROOT_SCHEMA_KEYS) {
+      if (isObject(entry[key])) mapSubschemas(entry[key] as JSONSchema, key, count);
+    }
+  }
+
+  const share = (schema: JSONSchema, hint: string): JSONSchema => {
+    const content = JSON.stringify(schema);
+    const existing = collector.nameFor(content);
+    if (existing) return { $ref: `#/$defs/${existing}` };
+    if ((counts.get(content) || 0) < 2 || content.length < MIN_SHARED_SCHEMA_LENGTH) {
+      return mapSubschemas(schema, hint, share);
+    }
+    const name = collector.reserve(typeof schema.title === 'string' ? schema.title : hint);
+    collector.set(name, mapSubschemas(schema, hint, share), content);
+    return { $ref: `#/$defs/${name}` };
+  };
+
+  const shared = entries.map(entry => {
+    const result: SchemaHost = { ...entry };
+    for (const key of ROOT_SCHEMA_KEYS) {
+      if (isObject(entry[key])) result[key] = mapSubschemas(entry[key] as JSONSchema, key, share);
+    }
+    return result;
+  });
+
+  const actions = shard.actions ? shared.splice(0, shard.actions.length) : undefined;
+  const triggers = shard.triggers ? shared.splice(0, shard.triggers.length) : undefined;
+  const tools = shard.tools ? shared.splice(0, shard.tools.length) : undefined;
+
+  return {
+    ...shard,
+    ...(actions ? { actions: actions as unknown as ManifestShard['actions'] } : {}),
+    ...(triggers ? { triggers: triggers as unknown as ManifestShard['triggers'] } : {}),
+    ...(tools ? { tools: tools as unknown as ManifestShard['tools'] } : {}),
+    ...(Object.keys(collector.defs).length > 0 ? { $defs: sortKeys(collector.defs) } : {}),
+  };
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Inline the shard $defs an embedded schema references, directly or through
+ * other defs; references to its own $defs stay
+ */
+export function hydrateSchema<T extends JSONSchema>(schema: T, defs: Record<string, JSONSchema> = {}): T {
+  const own = isObject(schema.$defs) ? schema.$defs : {};
+  const inline = (value: unknown): any => {
+    if (Array.isArray(value)) return value.map(inline);
+    if (!isObject(value)) return value;
+    const name = typeof value.$ref === 'string' ? value.$ref.match(/^#\/\$defs\/(.+)$/)?.[1] : undefined;
+    if (name && !own[name] && defs[name]) return inline(defs[name]);
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, inline(child)]));
+  };
+  return inline(schema);
+}
+
+/**
+ * `#/$defs/<name>` references in a shard that neither its $defs nor an
+ * embedded schema's own $defs define
+ */
+export function unresolvedDefRefs(shard: ManifestShard): string[] {
+  const { $defs: defs = {}, ...entries } = shard;
+  const embedded = embeddedDefNames([...(shard.actions || []), ...(shard.triggers || []), ...(shard.tools || [])] as unknown as SchemaHost[]);
+  const refs = collectDefRefs([entries, defs]);
+  return [...refs].filter(name => !defs[name] && !embedded.has(name)).sort();
+}
+
+/**
+ * An entry with each of its embedded schemas hydrated from the shard's $defs
+ */
+export function hydrateEntry<T extends object>(entry: T, defs: Record<string, JSONSchema> | undefined): T {
+  if (!defs) return entry;
+  const result = { ...entry } as SchemaHost;
+  for (const key of ROOT_SCHEMA_KEYS) {
+    if (isObject(result[key])) result[key] = hydrateSchema(result[key] as JSONSchema, defs);
+  }
+  return result as T;
+}
+
+/**
+ * Split a manifest into its index and shards, keyed by path relative to the adapter directory
+ */
+export function shardManifest(
+  manifest: AdapterManifest,
+  categories: CategoryIndexEntry[]
+): { index: ManifestIndex; shards: Record<string, ManifestShard> } {
+  const shardNames = [...categories.map(category => category.id)];
+  const groups = new Map<string, Required<Pick<ManifestShard, 'actions' | 'triggers'>>>();
+  const group = (name: string) => {
+    if (!groups.has(name)) {
+      groups.set(name, { actions: [], triggers: [] });
+      if (!shardNames.includes(name)) shardNames.push(name);
+    }
+    return groups.get(name)!;
+  };
+
+  manifest.actions.forEach(action => group(action.category).actions.push(action));
+  manifest.triggers.forEach(trigger => group(trigger.category || UNCATEGORIZED_SHARD).triggers.push(trigger));
+
+  const shards: Record<string, ManifestShard> = {};
+  for (const name of shardNames) {
+    if (!groups.has(name)) continue;
+    shards[shardPath(name)] = dedupeShard({
+      $schema: '../../../schemas/adapter-manifest-shard.schema.json',
+      ...(name === UNCATEGORIZED_SHARD ? {} : { category: name }),
+      ...groups.get(name)!,
+    });
+  }
+
+  const tools = manifest.mcp?.tools || [];
+  if (manifest.mcp) {
+    shards[shardPath(MCP_SHARD)] = dedupeShard({
+      $schema: '../../../schemas/adapter-manifest-shard.schema.json',
+      tools,
+    });
+  }
+
+  const index: ManifestIndex = {
+    $schema: '../../schemas/adapter-manifest-index.schema.json',
+    categories: categories.map(category => ({ ...category, shard: shardPath(category.id) })),
+    actions: manifest.actions.map(action => ({
+      id: action.id,
+      name: action.name,
+      category: action.category,
+      shard: shardPath(action.category),
+    })),
+    triggers: manifest.triggers.map(trigger => ({
+      id: trigger.id,
+      name: trigger.name,
+      event: trigger.event,
+      ...(trigger.category ? { category: trigger.category } : {}),
+      shard: shardPath(trigger.category || UNCATEGORIZED_SHARD),
+    })),
+    ...(manifest.webhooks ? { webhooks: manifest.webhooks } : {}),
+    ...(manifest.mcp ? { mcp: { shard: shardPath(MCP_SHARD), tools: tools.map(tool => tool.name) } } : {}),
+  };
+
+  return { index, shards };
+}
+
+/**
+ * Rebuild the full manifest from an index and its shards
+ *
+ * Throws when an index entry points at a missing shard or entry.
+ */
+export function assembleManifest(index: ManifestIndex, shards: Record<string, ManifestShard>): AdapterManifest {
+  const find = <T extends { id?: string; name?: string }>(
+    kind: 'actions' | 'triggers' | 'tools',
+    shard: string,
+    key: string,
+    matches: (entry: T) => boolean
+  ): T => {
+    const content = shards[shard];
+    if (!content) throw new Error(`${INDEX_FILE}: shard ${shard} not found`);
+    const entry = ((content[kind] || []) as unknown as T[]).find(matches);
+    if (!entry) throw new Error(`${INDEX_FILE}: ${kind.slice(0, -1)} "${key}" not found in ${shard}`);
+    return hydrateEntry(entry, content.$defs);
+  };
+
+  return {
+    categories: index.categories.map(({ shard: _shard, ...category }) => category),
+    actions: index.actions.map(entry => find('actions', entry.shard, entry.id, action => action.id === entry.id)),
+    triggers: index.triggers.map(entry => find('triggers', entry.shard, entry.id, trigger => trigger.id === entry.id)),
+    ...(index.webhooks ? { webhooks: index.webhooks } : {}),
+    ...(index.mcp
+      ? { mcp: { tools: index.mcp.tools.map(name => find('tools', index.mcp!.shard, name, tool => tool.name === name)) } }
+      : {}),
+  } as AdapterManifest;
+}
+
+/**
+ * The files a manifest is written as in the given layout, keyed by path
+ * relative to the adapter directory
+ */
+export function manifestFiles(
+  manifest: AdapterManifest,
+  layout: ManifestLayout,
+  categories: CategoryIndexEntry[]
+): Record<string, unknown> {
+  if (layout === 'single') {
+    return { [MANIFEST_FILE]: manifest };
+  }
+  const { index, shards } = shardManifest(manifest, categories);
+  return { [INDEX_FILE]: index, ...shards };
+}
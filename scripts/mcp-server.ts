@@ -0,0 +1,290 @@
+/**
+ * MCP Server
+ *
+ * Serves registry adapters' `mcp.tools` over the Model Context Protocol on
+ * stdio, so tool descriptions and input schemas can be tried with any MCP
+ * client before they're published to Encompass.
+ *
+ * - tools/list returns the tools of the selected adapters
+ * - tools/call validates the arguments against the tool's inputSchema,
+ *   resolves the action the tool runs (picked by `operation` for tools that
+ *   cover several) and hands it to the executor
+ *
+ * The default executor is a mock that answers with a sample built from the
+ * action's responseSchema. Another executor can be loaded from a module whose
+ * default export is a ToolExecutor.
+ *
+ * Usage:
+ *   npx tsx scripts/mcp-server.ts [slug...] [--executor mock|<module>]    # all adapters by default
+ *
+ * Example client config:
+ *   { "command": "npx", "args": ["tsx", "scripts/mcp-server.ts", "stripe", "aircall"] }
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { createInterface } from 'readline';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import type { ValidateFunction } from 'ajv';
+import type { ActionDefinition, MCPToolDefinition } from './types';
+import { createManifestLoader, type ManifestLoader } from './manifest-loader';
+import { sampleFromSchema } from './schema-samples';
+
+/**
+ * A validated tool call, as handed to the executor
+ */
+export interface ToolInvocation {
+  adapter: string;
+  tool: MCPToolDefinition;
+  /** The action the tool runs; undefined for curated tools not mapped to actions */
+  action?: ActionDefinition;
+  /** Tool arguments without the `operation` selector */
+  input: Record<string, unknown>;
+}
+
+/**
+ * Runs tool calls; the result is returned to the client as JSON text
+ */
+export type ToolExecutor = (invocation: ToolInvocation) => Promise<unknown>;
+
+export interface MCPServerOptions {
+  /** Registry root holding manifest.json and adapters/ (default: cwd) */
+  registryDir?: string;
+  /** Adapters to serve (default: every adapter in the root manifest) */
+  adapters?: string[];
+  executor?: ToolExecutor;
+}
+
+/**
+ * A JSON-RPC 2.0 request or notification (no id)
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface MCPServer {
+  /** Handle one message; notifications get no response */
+  handle(message: JsonRpcMessage): Promise<JsonRpcResponse | undefined>;
+}
+
+interface RegisteredTool {
+  adapter: string;
+  tool: MCPToolDefinition;
+  loader: ManifestLoader;
+}
+
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+/**
+ * Answers with a sample of the action's responseSchema, or echoes the call
+ * when there is none
+ */
+export const mockExecutor: ToolExecutor = async ({ adapter, tool, action, input }) => {
+  if (action?.responseSchema) return sampleFromSchema(action.responseSchema);
+  return { mock: true, adapter, tool: tool.name, ...(action ? { action: action.id } : {}), input };
+};
+
+/**
+ * Slugs of the adapters listed in the registry's root manifest
+ */
+function registryAdapters(registryDir: string): Array<{ slug: string; path: string }> {
+  const root = JSON.parse(readFileSync(join(registryDir, 'manifest.json'), 'utf8'));
+  return (root.adapters || []).map((entry: { slug: string; path: string }) => ({ slug: entry.slug, path: entry.path }));
+}
+
+/**
+ * The action a tool call runs: the only one the tool maps to, or the one
+ * its `operation` argument names
+ */
+function selectAction(tool: MCPToolDefinition, args: Record<string, unknown>): string | undefined {
+  const actions = Object.entries(tool.actions || {});
+  if (actions.length <= 1) return actions[0]?.[1];
+  const operation = String(args.operation);
+  const match = actions.find(([name]) => name === operation);
+  if (!match) throw new Error(`Unknown operation "${operation}"; expected one of ${actions.map(([name]) => name).join(', ')}`);
+  return match[1];
+}
+
+function toolResult(value: unknown, isError = false) {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return { content: [{ type: 'text', text }], ...(isError ? { isError: true } : {}) };
+}
+
+/**
+ * Create an MCP server over the registry's tools; transport-agnostic, see
+ * main() for stdio
+ */
+export function createMCPServer(options: MCPServerOptions = {}): MCPServer {
+  const registryDir = resolve(options.registryDir || '.');
+  const executor = options.executor || mockExecutor;
+  const version = JSON.parse(readFileSync(join(registryDir, 'package.json'), 'utf8')).version;
+
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validators = new Map<string, ValidateFunction>();
+
+  let registered: Promise<Map<string, RegisteredTool>> | undefined;
+  const tools = () => registered ??= (async () => {
+    const entries = registryAdapters(registryDir);
+    const selected = options.adapters?.length
+      ? options.adapters.map(slug => {
+        const entry = entries.find(candidate => candidate.slug === slug);
+        if (!entry) throw new Error(`Adapter "${slug}" is not in the registry`);
+        return entry;
+      })
+      : entries;
+
+    const byName = new Map<string, RegisteredTool>();
+    for (const { slug, path } of selected) {
+      const loader = createManifestLoader(join(registryDir, path));
+      for (const tool of await loader.tools()) {
+        if (byName.has(tool.name)) throw new Error(`Tool "${tool.name}" is defined by both ${byName.get(tool.name)!.adapter} and ${slug}`);
+        byName.set(tool.name, { adapter: slug, tool, loader });
+      }
+    }
+    return byName;
+  })();
+
+  async function callTool(params: Record<string, any>) {
+    const registeredTool = (await tools()).get(params.name);
+    if (!registeredTool) {
+      throw Object.assign(new Error(`Unknown tool "${params.name}"`), { code: INVALID_PARAMS });
+    }
+
+    const { adapter, tool, loader } = registeredTool;
+    const args: Record<string, unknown> = params.arguments || {};
+    if (!validators.has(tool.name)) validators.set(tool.name, ajv.compile(tool.inputSchema));
+    const validate = validators.get(tool.name)!;
+    if (!validate(args)) {
+      const errors = (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+      return toolResult(`Invalid arguments for ${tool.name}:\n${errors.join('\n')}`, true);
+    }
+
+    try {
+      const actionId = selectAction(tool, args);
+      const action = actionId ? await loader.action(actionId) : undefined;
+      if (actionId && !action) throw new Error(`${adapter} has no action "${actionId}"`);
+
+      // `operation` only selects the action when the tool runs several
+      const { operation, ...input } = args;
+      const selectsAction = Object.keys(tool.actions || {}).length > 1;
+
+      // The tool schema can't say which params each operation requires
+      const missing = (action?.configSchema.required || []).filter(name => args[name] === undefined);
+      if (selectsAction && missing.length > 0) {
+        return toolResult(`Invalid arguments for ${tool.name}: ${operation} requires ${missing.join(', ')}`, true);
+      }
+      return toolResult(await executor({ adapter, tool, action, input: selectsAction ? input : args }));
+    } catch (error) {
+      return toolResult((error as Error).message, true);
+    }
+  }
+
+  async function dispatch(message: JsonRpcMessage): Promise<unknown> {
+    const params = message.params || {};
+    switch (message.method) {
+      case 'initialize':
+        return {
+          protocolVersion: PROTOCOL_VERSIONS.includes(params.protocolVersion) ? params.protocolVersion : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'encompass-adapter-registry', version },
+        };
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: [...(await tools()).values()].map(({ tool }) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        })) };
+      case 'tools/call':
+        return callTool(params);
+      default:
+        throw Object.assign(new Error(`Method not found: ${message.method}`), { code: METHOD_NOT_FOUND });
+    }
+  }
+
+  return {
+    async handle(message) {
+      if (message?.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        return { jsonrpc: '2.0', id: message?.id ?? null, error: { code: INVALID_REQUEST, message: 'Invalid request' } };
+      }
+      const isNotification = message.id === undefined;
+      if (isNotification) return undefined;
+
+      try {
+        return { jsonrpc: '2.0', id: message.id!, result: await dispatch(message) };
+      } catch (error) {
+        const code = (error as { code?: number }).code ?? -32603;
+        return { jsonrpc: '2.0', id: message.id!, error: { code, message: (error as Error).message } };
+      }
+    },
+  };
+}
+
+/**
+ * Load an executor by name: `mock`, or a module whose default export is one
+ */
+async function loadExecutor(name: string): Promise<ToolExecutor> {
+  if (name === 'mock') return mockExecutor;
+  const path = resolve(name);
+  if (!existsSync(path)) throw new Error(`Executor module ${name} not found`);
+  const module = await import(pathToFileURL(path).href);
+  if (typeof module.default !== 'function') throw new Error(`${name} has no default export executor`);
+  return module.default;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const adapters: string[] = [];
+  let executorName = 'mock';
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--executor') executorName = args[++i];
+    else adapters.push(args[i]);
+  }
+
+  const server = createMCPServer({ adapters, executor: await loadExecutor(executorName) });
+  // stdout carries the protocol; everything else goes to stderr
+  console.error(`MCP server ready (${adapters.length > 0 ? adapters.join(', ') : 'all adapters'}, ${executorName} executor)`);
+
+  const send = (response: JsonRpcResponse | undefined) => {
+    if (response) process.stdout.write(`${JSON.stringify(response)}\n`);
+  };
+
+  const lines = createInterface({ input: process.stdin });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      continue;
+    }
+    server.handle(message).then(send, error => console.error(error));
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,537 @@
+/**
+ * MCP Tool Builder
+ *
+ * Builds the `mcp.tools` an adapter exposes to AI agents from its actions.
+ * Actions are grouped by the resource they act on, and each resource gets
+ * a read tool (list, search, get) and a write tool (create, update, delete
+ * and custom verbs such as confirm or cancel), with an `operation` input
+ * picking the action when a tool covers several.
+ *
+ * Resources are ranked so the budget goes to the ones agents need most:
+ * top-level resources with full CRUD and many sub-resources first, nested,
+ * test-helper and preview endpoints last. Input schemas are cut down to
+ * required params and the most compact optional ones, without deprecated
+ * and rarely used params.
+ *
+ * Curated tools (written by hand in the manifest or in overrides.json) are
+ * always kept, count against the budget and win over generated tools of the
+ * same name or covering the same actions.
+ */
+
+import type { ActionDefinition, JSONSchema, MCPToolDefinition, ObjectSchema } from './types';
+import { toSnakeCase } from './action-ids';
+import { truncate } from './description-formatter';
+
+export interface MCPToolBudget {
+  /** Most tools per adapter, curated ones included */
+  maxTools: number;
+  /** Estimated tokens for all tool definitions together */
+  maxTokens: number;
+  /** Optional params kept per action in generated input schemas */
+  maxOptionalParams: number;
+}
+
+export const DEFAULT_MCP_BUDGET: MCPToolBudget = {
+  maxTools: 20,
+  maxTokens: 10000,
+  maxOptionalParams: 6,
+};
+
+export interface BuildMCPToolsOptions {
+  /** Hand-written tools to keep; they come first in the result */
+  curated?: MCPToolDefinition[];
+  budget?: Partial<MCPToolBudget>;
+  /** Tool description length (DescriptionLimits.mcp) */
+  descriptionLimit?: number;
+}
+
+type ToolKind = 'read' | 'write';
+
+/**
+ * An action classified by the resource it acts on and what it does to it
+ */
+interface ResourceOperation {
+  resource: string;
+  operation: string;
+  action: ActionDefinition;
+  /** How many resources deep the path is: 1 for /customers, 2 for /customers/{id}/sources */
+  depth: number;
+  /** Acts on a single object its path names without an id, like GET /v1/account */
+  singleton?: boolean;
+}
+
+interface Resource {
+  key: string;
+  operations: Map<string, ActionDefinition>;
+  /** The shallowest path among its actions */
+  depth: number;
+  score: number;
+}
+
+const READ_OPERATIONS = ['list', 'search', 'get'];
+const WRITE_OPERATIONS = ['create', 'update', 'delete'];
+
+/**
+ * How much each operation adds to a resource's rank; custom verbs count 1
+ */
+const OPERATION_WEIGHTS: Record<string, number> = {
+  create: 4,
+  list: 3,
+  send: 3,
+  get: 2,
+  search: 2,
+  update: 2,
+  delete: 1,
+};
+
+/**
+ * Verbs of hand-written action ids (`list_contacts`) that map onto standard operations
+ */
+const ID_VERBS: Record<string, string> = {
+  list: 'list',
+  search: 'search',
+  get: 'get',
+  fetch: 'get',
+  retrieve: 'get',
+  create: 'create',
+  add: 'create',
+  post: 'create',
+  update: 'update',
+  modify: 'update',
+  delete: 'delete',
+  remove: 'delete',
+};
+
+/**
+ * Resources agents rarely want: sandbox helpers and unstable endpoints
+ */
+const LOW_VALUE_RESOURCES = /(^|_)(test_helper|preview|beta|internal|deprecated)s?(_|$)/;
+
+/**
+ * Params that cost tokens without helping agents: response shaping,
+ * reverse pagination and auth material that belongs in the connection
+ */
+const RARELY_USED_PARAMS = new Set([
+  'expand', 'ending_before', 'fields', 'include', 'pretty', 'prettyPrint', 'callback',
+  'alt', 'quotaUser', 'userIp', 'access_token', 'api_key', 'on-behalf-of', 'Stripe-Account',
+  'Stripe-Version', 'Idempotency-Key',
+]);
+
+/**
+ * Keywords kept in concise input schemas
+ */
+const SCHEMA_KEYWORDS = [
+  'type', 'format', 'description', 'enum', 'const', 'default', 'minimum', 'maximum',
+  'items', 'properties', 'required', 'anyOf', 'oneOf',
+];
+
+const PARAM_DESCRIPTION_LIMIT = 160;
+
+/**
+ * Rough token count of a tool definition as an MCP client sends it to the model
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/**
+ * Whether a path segment is or holds a param: `{id}`, `:id`, `-;externalUserId={id}`
+ */
+function isParam(segment: string): boolean {
+  return /\{[^}]+\}/.test(segment) || segment.startsWith(':');
+}
+
+function isPlural(word: string): boolean {
+  return /[^su]s$/.test(word) || /(data|media|people)$/.test(word);
+}
+
+function singular(word: string): string {
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  return isPlural(word) && word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+function plural(word: string): string {
+  if (isPlural(word)) return word;
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  return /(s|x|ch|sh)$/.test(word) ? `${word}es` : `${word}s`;
+}
+
+/**
+ * Resource key from literal path segments or id words: `customers/sources` → `customer_source`
+ */
+function resourceKey(words: string[]): string {
+  return words.map(word => singular(toSnakeCase(word))).filter(Boolean).join('_');
+}
+
+/**
+ * An endpoint's path segments without version segments or `.json`
+ */
+function pathSegments(endpoint: string): string[] {
+  return endpoint
+    .split('/')
+    .map(segment => segment.replace(/\.json$/, ''))
+    .filter(segment => segment && !/^v\d+(\.\d+)?$/.test(segment) && !/^\d{4}-\d{2}-\d{2}$/.test(segment));
+}
+
+/**
+ * How many leading segments every endpoint shares, like Xero's /api.xro/2.0;
+ * they name the API rather than a resource. The segment that names an
+ * endpoint's resource is never part of it.
+ */
+function sharedPrefixLength(actions: ActionDefinition[]): number {
+  const paths = actions.filter(action => action.method && action.endpoint).map(action => pathSegments(action.endpoint!));
+  if (paths.length < 2) return 0;
+
+  for (let length = 0; ; length++) {
+    const segment = paths[0][length];
+    const shared = segment !== undefined && !isParam(segment) && paths.every(path =>
+      path[length] === segment && path.slice(length + 1).some(rest => !isParam(rest)));
+    if (!shared) return length;
+  }
+}
+
+/**
+ * Work out the resource and operation of an executable action from its
+ * method and endpoint, e.g. `POST /v1/payment_intents/{intent}/confirm`
+ * is `confirm` on `payment_intent`
+ */
+function classifyEndpoint(action: ActionDefinition, prefixLength = 0): ResourceOperation | undefined {
+  const segments = pathSegments(action.endpoint!).slice(prefixLength);
+  const literals = segments.filter(segment => !isParam(segment));
+  const last = segments[segments.length - 1];
+  if (!last || literals.length === 0) return undefined;
+
+  // Each id param before the resource's last segment is a parent resource
+  const depthOf = (words: string[]) => {
+    let seen = 0;
+    let params = 0;
+    for (const segment of segments) {
+      if (isParam(segment)) params++;
+      else if (++seen === words.length) break;
+    }
+    return 1 + params;
+  };
+  const operation = (name: string, words = literals) =>
+    words.length > 0 ? { resource: resourceKey(words), operation: name, action, depth: depthOf(words) } : undefined;
+  const singleton = (name: string) => {
+    const classified = operation(name);
+    return classified && !isPlural(last) ? { ...classified, singleton: true } : classified;
+  };
+
+  if (isParam(last)) {
+    if (action.method === 'GET') return operation('get');
+    if (action.method === 'DELETE') return operation('delete');
+    return operation('update');
+  }
+
+  const parent = literals.slice(0, -1);
+  switch (action.method) {
+    case 'GET':
+      if (last === 'search') return operation('search', parent);
+      return isPlural(last) ? operation('list') : singleton('get');
+    case 'DELETE':
+      return singleton('delete');
+    default:
+      // A singular word after the resource is a verb: /emails/{id}/cancel, /mail/send
+      if (!isPlural(last) && segments.length > 1) return operation(toSnakeCase(last), parent);
+      return action.method === 'POST' && isPlural(last) ? operation('create') : singleton('update');
+  }
+}
+
+/**
+ * How many trailing words of a path-built id are its id param: `customer`
+ * in customers_customer, `id` in billing_meters_id and
+ * `subscription_exposed_id` in subscriptions_subscription_exposed_id
+ */
+function idParamLength(words: string[]): number {
+  const last = words.length - 1;
+  for (let i = last; i >= Math.max(1, last - 2); i--) {
+    if (words[i] === singular(words[i - 1]) && (i === last || words[last] === 'id')) return words.length - i;
+  }
+  return words.length > 1 && words[last] === 'id' ? 1 : 0;
+}
+
+/**
+ * Resource and operation of an action without an endpoint, from its id:
+ * `list_contacts` is `list` on `contact`. Ids built from paths repeat the
+ * resource for its id param, so `get_customers` lists customers and
+ * `get_customers_customer` gets one.
+ */
+function classifyId(action: ActionDefinition): ResourceOperation | undefined {
+  const [verb, ...rest] = action.id.split('_');
+  if (rest.length === 0) return undefined;
+
+  const param = idParamLength(rest);
+  const byId = param > 0;
+  const words = rest.slice(0, rest.length - param);
+  let operation = ID_VERBS[verb] || verb;
+  if (operation === 'get' && !byId && isPlural(words[words.length - 1])) operation = 'list';
+  if (operation === 'create' && byId) operation = 'update';
+  // An id param followed by another collection is a parent's, as in
+  // customers_customer_sources; it isn't part of the resource's name
+  const parentIds = new Set(words.flatMap((word, i) =>
+    i > 0 && word === singular(words[i - 1]) && words.slice(i + 1).some(isPlural) ? [i] : []));
+  const path = words.filter((_, i) => !parentIds.has(i));
+  return { resource: resourceKey(path), operation, action, depth: 1 + parentIds.size };
+}
+
+function isDeprecated(schema: { deprecated?: unknown; description?: string } | undefined): boolean {
+  return Boolean(schema?.deprecated) || /^\s*(\*\*)?deprecated\b/i.test(schema?.description || '');
+}
+
+/**
+ * Group actions by resource, keeping the first action for each operation.
+ * A singleton endpoint sharing its resource with a collection, like GET
+ * /v1/account next to /v1/accounts/{account}, becomes a `current_` resource
+ * of its own so get, update and delete on the collection always take an id.
+ */
+function groupResources(actions: ActionDefinition[]): Resource[] {
+  const resources = new Map<string, Resource>();
+  const prefixLength = sharedPrefixLength(actions);
+  const classifications = actions
+    .filter(action => !isDeprecated(action))
+    .map(action => action.method && action.endpoint ? classifyEndpoint(action, prefixLength) : classifyId(action))
+    .filter((classified): classified is ResourceOperation => classified !== undefined);
+  const collections = new Set(classifications.filter(classified => !classified.singleton).map(classified => classified.resource));
+
+  for (const classified of classifications) {
+    const { action } = classified;
+    const key = classified.singleton && collections.has(classified.resource) ? `current_${classified.resource}` : classified.resource;
+    const resource = resources.get(key) || { key, operations: new Map(), depth: classified.depth, score: 0 };
+    if (!resource.operations.has(classified.operation)) {
+      resource.operations.set(classified.operation, action);
+    }
+    resource.depth = Math.min(resource.depth, classified.depth);
+    resources.set(resource.key, resource);
+  }
+
+  for (const resource of resources.values()) {
+    const operations = [...resource.operations.keys()]
+      .reduce((sum, operation) => sum + (OPERATION_WEIGHTS[operation] ?? 1), 0);
+    // Resources with sub-resources (customer → customer_source) are central to the API
+    const children = [...resources.values()]
+      .filter(child => child.key.startsWith(`${resource.key}_`) && child.depth > resource.depth).length;
+    resource.score = (operations + Math.min(children, 5)) / resource.depth;
+    if (LOW_VALUE_RESOURCES.test(resource.key)) resource.score /= 10;
+  }
+
+  return [...resources.values()].sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+}
+
+/**
+ * Resolve a local `$ref` against the schema's `$defs`
+ */
+function resolveRef(schema: JSONSchema, defs: Record<string, JSONSchema>): JSONSchema {
+  const ref = typeof schema.$ref === 'string' ? schema.$ref.match(/^#\/\$defs\/(.+)$/) : null;
+  if (!ref || !defs[ref[1]]) return schema;
+  return { ...defs[ref[1]], ...(schema.description ? { description: schema.description } : {}) };
+}
+
+/**
+ * A schema stripped to the keywords agents need; objects below the first
+ * level collapse to `{ type: 'object' }` with their description, and arrays
+ * to their item type
+ */
+function simplifySchema(input: JSONSchema, defs: Record<string, JSONSchema>, depth = 0): JSONSchema {
+  const schema = resolveRef(input, defs);
+  const simple: JSONSchema = {};
+
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (schema[keyword] !== undefined) simple[keyword] = schema[keyword];
+  }
+  if (typeof simple.description === 'string') {
+    simple.description = truncate(simple.description.split('\n')[0], PARAM_DESCRIPTION_LIMIT);
+  }
+  if (simple.type === undefined && !simple.anyOf && !simple.oneOf && !simple.enum) {
+    simple.type = schema.properties ? 'object' : 'string';
+  }
+
+  const nested = schema.properties || schema.anyOf || schema.oneOf || schema.items;
+  if (nested && depth >= 1) {
+    delete simple.properties;
+    delete simple.required;
+    delete simple.anyOf;
+    delete simple.oneOf;
+    if (schema.items) simple.items = { type: resolveRef(schema.items, defs).type ?? 'string' };
+    if (schema.properties || schema.anyOf || schema.oneOf) simple.type = schema.type || 'object';
+    return simple;
+  }
+
+  if (schema.properties) {
+    simple.properties = Object.fromEntries(
+      Object.entries(schema.properties)
+        .filter(([, value]) => !isDeprecated(value))
+        .map(([key, value]) => [key, simplifySchema(value, defs, depth + 1)])
+    );
+  }
+  if (schema.items) simple.items = simplifySchema(schema.items, defs, depth + 1);
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const branches = schema[keyword];
+    if (Array.isArray(branches)) {
+      simple[keyword] = branches.map(branch => simplifySchema(branch as JSONSchema, defs, depth));
+    }
+  }
+  return simple;
+}
+
+/**
+ * An action's input schema cut down for agents: every required param, then
+ * the most compact optional ones up to the limit, without deprecated,
+ * rarely used and optional header params
+ */
+export function conciseInputSchema(action: ActionDefinition, maxOptionalParams: number): ObjectSchema {
+  const { configSchema } = action;
+  const defs = (configSchema.$defs || {}) as Record<string, JSONSchema>;
+  const required = new Set(configSchema.required || []);
+
+  const candidates = Object.entries(configSchema.properties).filter(([name, schema]) =>
+    required.has(name) || (
+      !isDeprecated(resolveRef(schema, defs)) &&
+      !RARELY_USED_PARAMS.has(name) &&
+      action.parameterLocations?.[name] !== 'header'
+    )
+  );
+  const simplified = candidates.map(([name, schema]) => [name, simplifySchema(schema, defs)] as const);
+
+  const optional = simplified
+    .filter(([name]) => !required.has(name))
+    .sort((a, b) => JSON.stringify(a[1]).length - JSON.stringify(b[1]).length)
+    .slice(0, maxOptionalParams)
+    .map(([name]) => name);
+  const kept = new Set([...required, ...optional]);
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(simplified.filter(([name]) => kept.has(name))),
+    ...(required.size > 0 ? { required: [...required] } : {}),
+  };
+}
+
+function joinWords(words: string[]): string {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} or ${words[words.length - 1]}` : words[0];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * One tool for the read or write operations of a resource. With several
+ * operations the input gets an `operation` enum and params used by only
+ * some operations say which.
+ */
+function buildTool(
+  slug: string,
+  adapterName: string,
+  resource: Resource,
+  kind: ToolKind,
+  maxOptionalParams: number,
+  descriptionLimit: number
+): MCPToolDefinition | undefined {
+  const isRead = (operation: string) => READ_OPERATIONS.includes(operation);
+  const order = (operation: string) => {
+    const index = [...READ_OPERATIONS, ...WRITE_OPERATIONS].indexOf(operation);
+    return index === -1 ? Infinity : index;
+  };
+  const operations = [...resource.operations.entries()]
+    .filter(([operation]) => (kind === 'read') === isRead(operation))
+    .sort((a, b) => order(a[0]) - order(b[0]));
+  if (operations.length === 0) return undefined;
+
+  const schemas = operations.map(([operation, action]) => [operation, conciseInputSchema(action, maxOptionalParams)] as const);
+  const label = resource.key.split('_').map((word, index, words) => index === words.length - 1 ? plural(word) : word).join(' ');
+
+  let inputSchema: ObjectSchema;
+  let description: string;
+
+  if (schemas.length === 1) {
+    const [[operation, action]] = operations;
+    inputSchema = schemas[0][1];
+    description = `${capitalize(operation.replace(/_/g, ' '))} ${label} in ${adapterName}. ${action.summary || ''}`;
+  } else {
+    const properties: Record<string, JSONSchema> = {};
+    const usedBy = new Map<string, string[]>();
+    for (const [operation, schema] of schemas) {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        properties[name] ??= property;
+        usedBy.set(name, [...(usedBy.get(name) || []), operation]);
+      }
+    }
+    for (const [name, users] of usedBy) {
+      if (users.length < schemas.length) {
+        const note = `(${users.join(', ')})`;
+        properties[name] = {
+          ...properties[name],
+          description: properties[name].description ? `${properties[name].description} ${note}` : note,
+        };
+      }
+    }
+
+    const requirements = schemas.map(([operation, schema]) =>
+      schema.required?.length ? `${operation} requires ${schema.required.join(', ')}` : `${operation}`
+    );
+    inputSchema = {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: schemas.map(([operation]) => operation),
+          description: `What to do: ${requirements.join('; ')}`,
+        },
+        ...properties,
+      },
+      required: ['operation'],
+    };
+    description = `${capitalize(joinWords(operations.map(([operation]) => operation.replace(/_/g, ' '))))} ${label} in ${adapterName}.`;
+  }
+
+  return {
+    name: `${slug}_${resource.key}_${kind}`,
+    description: truncate(description.trim(), descriptionLimit),
+    inputSchema,
+    generated: true,
+    actions: Object.fromEntries(operations.map(([operation, action]) => [operation, action.id])),
+  };
+}
+
+/**
+ * Build an adapter's MCP tools: its curated tools, then read/write tools
+ * for its highest ranked resources until the tool or token budget runs out.
+ * A tool that doesn't fit is retried with required params only.
+ */
+export function buildMCPTools(
+  slug: string,
+  adapterName: string,
+  actions: ActionDefinition[],
+  options: BuildMCPToolsOptions = {}
+): MCPToolDefinition[] {
+  const budget = { ...DEFAULT_MCP_BUDGET, ...options.budget };
+  const descriptionLimit = options.descriptionLimit ?? 1024;
+  const curated = (options.curated || []).filter(tool => !tool.generated);
+
+  const taken = new Set(curated.map(tool => tool.name));
+  const covered = new Set(curated.flatMap(tool => Object.values(tool.actions || {})));
+  const tools = [...curated];
+  let tokens = curated.reduce((sum, tool) => sum + estimateTokens(tool), 0);
+
+  for (const resource of groupResources(actions)) {
+    for (const kind of ['read', 'write'] as const) {
+      if (tools.length >= budget.maxTools) return tools;
+
+      const build = (maxOptionalParams: number) =>
+        buildTool(slug, adapterName, resource, kind, maxOptionalParams, descriptionLimit);
+      let tool = build(budget.maxOptionalParams);
+      if (!tool || taken.has(tool.name) || Object.values(tool.actions!).every(id => covered.has(id))) continue;
+
+      if (tokens + estimateTokens(tool) > budget.maxTokens) tool = build(0)!;
+      if (tokens + estimateTokens(tool) > budget.maxTokens) continue;
+
+      tools.push(tool);
+      taken.add(tool.name);
+      tokens += estimateTokens(tool);
+    }
+  }
+
+  return tools;
+}
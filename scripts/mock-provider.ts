@@ -0,0 +1,352 @@
+/**
+ * Mock Provider
+ *
+ * Serves a fake provider API from an adapter's manifest, to test executors and
+ * Encompass flows offline. Requests are routed on each action's `method` and
+ * `endpoint` (with or without the base_url path, e.g. Aircall's /v1) and:
+ *
+ * - must carry credentials the way `authentication` says, signed when it
+ *   declares `signing`, else 401
+ * - take tokens from the adapter's `rateLimit` buckets, `burst` and
+ *   `endpoints` included (see rate-limit.ts), else 429 with Retry-After
+ * - are checked against the action's `configSchema`, else 400
+ * - get the recorded fixture for the action, else a sample of its
+ *   `responseSchema`
+ *
+ * Fixtures are `<fixtures>/<action_id>.json` files holding
+ * `{ "status": 201, "headers": {}, "body": { ... } }`.
+ *
+ * Usage:
+ *   npx tsx scripts/mock-provider.ts <slug> [--port 4010] [--fixtures <dir>] [--credentials <json|file>] [--no-auth] [--no-rate-limit]
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { join, resolve } from 'path';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import type { ValidateFunction } from 'ajv';
+import type { ActionDefinition, AdapterManifest } from './types';
+import { requestSignature, secretField, type AuthConfig } from './auth-config';
+import { createRateLimiter, type RateLimitPolicy } from './rate-limit';
+import { readManifest } from './manifest-loader';
+import { sampleFromSchema } from './schema-samples';
+
+export interface MockProviderOptions {
+  /** Directory of `<action_id>.json` fixtures */
+  fixturesDir?: string;
+  /** Accept only these credentials; by default any credentials in the right place pass */
+  credentials?: Record<string, string>;
+  /** Check credentials (default: true) */
+  auth?: boolean;
+  /** Enforce the adapter's rateLimit (default: true) */
+  rateLimit?: boolean;
+  /** Called after each request, for logging */
+  onRequest?: (entry: { method: string; path: string; status: number; action?: string }) => void;
+}
+
+interface Route {
+  action: ActionDefinition;
+  pattern: RegExp;
+  params: string[];
+  /** Literal segments; routes with more are tried first so /calls/search beats /calls/{id} */
+  literals: number;
+}
+
+interface AdapterJson {
+  base_url?: string;
+  authentication: AuthConfig;
+  rateLimit?: RateLimitPolicy;
+}
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+function errorResponse(status: number, type: string, message: string, details?: unknown): MockResponse {
+  return { status, body: { error: { type, message, ...(details ? { details } : {}) } } };
+}
+
+/**
+ * Routes for every executable action
+ */
+function buildRoutes(actions: ActionDefinition[]): Route[] {
+  return actions
+    .filter(action => action.method && action.endpoint)
+    .map(action => {
+      const params: string[] = [];
+      const segments = action.endpoint!.split('/').filter(Boolean);
+      const source = segments.map(segment => {
+        const param = segment.match(/^\{([^}]+)\}$|^:(\w+)$/);
+        if (param) {
+          params.push(param[1] || param[2]);
+          return '([^/]+)';
+        }
+        // A param inside a segment, e.g. Twilio's /Accounts/{AccountSid}.json
+        return segment.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{([^}]+)\}/g, (_, name: string) => {
+          params.push(name);
+          return '([^/]+)';
+        });
+      });
+      return {
+        action,
+        pattern: new RegExp(`^/${source.join('/')}/?$`),
+        params,
+        literals: segments.filter(segment => !segment.includes('{') && !segment.startsWith(':')).length,
+      };
+    })
+    .sort((a, b) => b.literals - a.literals);
+}
+
+/**
+ * Set a value at a bracket-notation key: `metadata[a]`, `items[0][price]`
+ */
+function setBracketed(target: Record<string, any>, key: string, value: string): void {
+  const path = key.replace(/\]/g, '').split('[');
+  let node: Record<string, any> = target;
+  path.forEach((part, index) => {
+    const last = index === path.length - 1;
+    const name = part === '' && Array.isArray(node) ? String(node.length) : part;
+    if (last) {
+      node[name] = value;
+    } else {
+      node[name] ??= /^\d*$/.test(path[index + 1]) ? [] : {};
+      node = node[name];
+    }
+  });
+}
+
+/**
+ * Query string or form body as an object; repeated keys become arrays
+ */
+function decodeForm(params: URLSearchParams): Record<string, unknown> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of params) {
+    if (key.includes('[')) setBracketed(result, key, value);
+    else if (key in result) result[key] = [].concat(result[key], value as any);
+    else result[key] = value;
+  }
+  return result;
+}
+
+async function readRequestBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function parseBody(raw: string, contentType: string): Record<string, unknown> | undefined {
+  if (!raw) return {};
+  if (contentType.includes('application/x-www-form-urlencoded')) return decodeForm(new URLSearchParams(raw));
+  if (contentType.includes('json')) {
+    try {
+      const body = JSON.parse(raw);
+      return body && typeof body === 'object' && !Array.isArray(body) ? body : { body };
+    } catch {
+      return undefined;
+    }
+  }
+  // Multipart and other bodies aren't parsed; their fields can't be checked
+  return {};
+}
+
+/**
+ * Why the request's credentials don't satisfy the adapter's authentication, if they don't
+ */
+function authFailure(
+  auth: AuthConfig,
+  request: IncomingMessage,
+  query: URLSearchParams,
+  raw: string,
+  expected: Record<string, string> | undefined
+): string | undefined {
+  const authorization = request.headers.authorization || '';
+  const matches = (field: string | undefined, value: string) => !expected || !field || expected[field] === undefined || expected[field] === value;
+  // Same field the action executor sends
+  const tokenField = secretField(auth, ['api_key', 'token']);
+
+  switch (auth.type) {
+    case 'basic': {
+      if (!authorization.startsWith('Basic ')) return 'Expected HTTP basic credentials';
+      const [user, ...rest] = Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':');
+      const [userField, passwordField] = auth.fields.filter(field => field.required).map(field => field.name);
+      if (!matches(userField, user) || !matches(passwordField, rest.join(':'))) return 'Invalid credentials';
+      break;
+    }
+    case 'api_key': {
+      const placement = auth.apiKey;
+      if (!placement) {
+        if (auth.signing) break;
+        return 'Adapter declares neither an apiKey placement nor request signing';
+      }
+      const sent = placement.in === 'query' ? query.get(placement.name) : request.headers[placement.name.toLowerCase()] as string | undefined;
+      const prefix = placement.prefix || '';
+      if (!sent || !sent.startsWith(prefix) || sent.length === prefix.length) return `Expected an API key in the ${placement.name} ${placement.in}`;
+      if (!matches(placement.field || secretField(auth, ['api_key']), sent.slice(prefix.length))) return 'Invalid API key';
+      break;
+    }
+    case 'bearer':
+    case 'jwt':
+    case 'oauth2': {
+      if (!authorization.startsWith('Bearer ') || authorization.length === 7) return 'Expected a bearer token';
+      const field = auth.type === 'oauth2' ? 'access_token' : tokenField;
+      if (!matches(field, authorization.slice(7))) return 'Invalid token';
+      break;
+    }
+  }
+
+  for (const [name, template] of Object.entries(auth.headers || {})) {
+    const value = request.headers[name.toLowerCase()];
+    if (!value) return `Missing ${name} header`;
+    const field = template.match(/^\{(\w+)\}$/)?.[1];
+    if (!matches(field, String(value))) return `Invalid ${name} header`;
+  }
+
+  const signing = auth.signing;
+  if (signing) {
+    const signature = request.headers[signing.signatureHeader.toLowerCase()];
+    const timestamp = signing.timestampHeader ? request.headers[signing.timestampHeader.toLowerCase()] : '';
+    if (!signature || timestamp === undefined) return `Missing ${signature ? signing.timestampHeader : signing.signatureHeader} header`;
+    const secret = expected?.[signing.field];
+    const content = { timestamp: String(timestamp), method: request.method || 'GET', path: request.url || '/', body: raw };
+    if (secret !== undefined && requestSignature(signing, secret, content) !== signature) return 'Invalid request signature';
+  }
+  return undefined;
+}
+
+/**
+ * An HTTP server answering as the adapter's provider; listen() starts it
+ */
+export function createMockProvider(adapterDir: string, options: MockProviderOptions = {}): Server {
+  const adapterJson: AdapterJson = JSON.parse(readFileSync(join(adapterDir, 'adapter.json'), 'utf8'));
+  const manifest: AdapterManifest | undefined = readManifest(adapterDir);
+  if (!manifest) throw new Error(`No manifest in ${adapterDir}`);
+
+  const routes = buildRoutes(manifest.actions);
+  const basePath = adapterJson.base_url ? new URL(adapterJson.base_url).pathname.replace(/\/$/, '') : '';
+  const limiter = options.rateLimit === false ? undefined : createRateLimiter(adapterJson.rateLimit || {});
+
+  const ajv = new Ajv2020({ allErrors: true, strict: false, coerceTypes: 'array' });
+  addFormats(ajv);
+  const validators = new Map<string, ValidateFunction>();
+
+  function route(method: string, path: string): { route: Route; params: Record<string, string> } | undefined {
+    const candidates = basePath && path.startsWith(`${basePath}/`) ? [path, path.slice(basePath.length)] : [path];
+    for (const candidate of candidates) {
+      for (const entry of routes) {
+        if (entry.action.method !== method) continue;
+        const match = candidate.match(entry.pattern);
+        if (match) {
+          return { route: entry, params: Object.fromEntries(entry.params.map((name, i) => [name, decodeURIComponent(match[i + 1])])) };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  function fixture(action: ActionDefinition): MockResponse | undefined {
+    const file = options.fixturesDir && join(options.fixturesDir, `${action.id}.json`);
+    if (!file || !existsSync(file)) return undefined;
+    const recorded = JSON.parse(readFileSync(file, 'utf8'));
+    return { status: recorded.status || 200, headers: recorded.headers, body: recorded.body };
+  }
+
+  async function respond(request: IncomingMessage): Promise<MockResponse & { action?: string }> {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const matched = route(request.method || 'GET', url.pathname);
+    if (!matched) return errorResponse(404, 'not_found', `No action for ${request.method} ${url.pathname}`);
+    const { action } = matched.route;
+
+    const raw = await readRequestBody(request);
+    if (options.auth !== false) {
+      const failure = authFailure(adapterJson.authentication, request, url.searchParams, raw, options.credentials);
+      if (failure) return { ...errorResponse(401, 'unauthorized', failure), action: action.id };
+    }
+
+    const wait = limiter?.tryAcquire({ method: action.method, endpoint: action.endpoint }) || 0;
+    if (wait > 0) {
+      const retryAfter = String(Math.ceil(wait / 1000));
+      return { ...errorResponse(429, 'rate_limited', 'Too many requests'), headers: { 'retry-after': retryAfter }, action: action.id };
+    }
+
+    const body = parseBody(raw, request.headers['content-type'] || '');
+    if (!body) return { ...errorResponse(400, 'invalid_request', 'Request body is not valid JSON'), action: action.id };
+
+    const locations = action.parameterLocations || {};
+    const headerParams = Object.keys(locations).filter(name => locations[name] === 'header' && request.headers[name.toLowerCase()] !== undefined);
+    const config: Record<string, unknown> = {
+      ...decodeForm(url.searchParams),
+      ...body,
+      ...Object.fromEntries(headerParams.map(name => [name, request.headers[name.toLowerCase()]])),
+      ...matched.params,
+    };
+    // Credentials sent in the query aren't action params
+    if (adapterJson.authentication.apiKey?.in === 'query') delete config[adapterJson.authentication.apiKey.name];
+
+    if (!validators.has(action.id)) validators.set(action.id, ajv.compile(action.configSchema));
+    const validate = validators.get(action.id)!;
+    if (!validate(config)) {
+      const errors = (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+      return { ...errorResponse(400, 'invalid_request', errors.join('; '), validate.errors), action: action.id };
+    }
+
+    const recorded = fixture(action);
+    if (recorded) return { ...recorded, action: action.id };
+    if (action.responseSchema) return { status: 200, body: sampleFromSchema(action.responseSchema), action: action.id };
+    return action.method === 'DELETE' ? { status: 204, action: action.id } : { status: 200, body: {}, action: action.id };
+  }
+
+  return createServer((request: IncomingMessage, response: ServerResponse) => {
+    respond(request)
+      .catch(error => errorResponse(500, 'mock_error', (error as Error).message))
+      .then((result: MockResponse & { action?: string }) => {
+        const headers = { ...(result.body !== undefined ? { 'content-type': 'application/json' } : {}), ...result.headers };
+        response.writeHead(result.status, headers);
+        response.end(result.body !== undefined ? JSON.stringify(result.body) : undefined);
+        options.onRequest?.({ method: request.method || 'GET', path: request.url || '/', status: result.status, action: result.action });
+      });
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  const options: MockProviderOptions = {};
+  let port = 4010;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--port') port = Number(args[++i]);
+    else if (args[i] === '--fixtures') options.fixturesDir = resolve(args[++i]);
+    else if (args[i] === '--credentials') {
+      const value = args[++i];
+      options.credentials = JSON.parse(value.trim().startsWith('{') ? value : readFileSync(value, 'utf8'));
+    }
+    else if (args[i] === '--no-auth') options.auth = false;
+    else if (args[i] === '--no-rate-limit') options.rateLimit = false;
+    else positional.push(args[i]);
+  }
+
+  const [slug] = positional;
+  if (!slug) {
+    console.error('Usage: npx tsx scripts/mock-provider.ts <slug> [--port 4010] [--fixtures <dir>] [--credentials <json|file>] [--no-auth] [--no-rate-limit]');
+    process.exit(1);
+  }
+
+  const adapterDir = resolve('adapters', slug);
+  const manifest = readManifest(adapterDir);
+  const routable = manifest?.actions.filter(action => action.method && action.endpoint).length ?? 0;
+  options.onRequest = ({ method, path, status, action }) => console.log(`${status} ${method} ${path}${action ? ` → ${action}` : ''}`);
+
+  const server = createMockProvider(adapterDir, options);
+  server.listen(port, () => {
+    console.log(`Mock ${slug} listening on http://localhost:${port} (${routable} of ${manifest?.actions.length ?? 0} actions routable)`);
+  });
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
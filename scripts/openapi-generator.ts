@@ -5,11 +5,37 @@
  * This ensures 100% API coverage - every endpoint becomes an action.
  */
 
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
 import type {
   AdapterManifest,
   ActionDefinition,
+  CategoryIndexEntry,
+  HttpMethod,
+  JSONSchema,
+  ManifestLayout,
+  ParameterLocation,
   TriggerDefinition
 } from './types';
+import type { MediaType, OpenAPISpec, Operation, RequestBody } from './openapi-types';
+import { createSchemaResolver, loadExternalDocuments, type SchemaResolver } from './schema-resolver';
+import {
+  DEFAULT_DESCRIPTION_LIMITS,
+  formatDescription,
+  type DescriptionLimits,
+  type FormattedDescription
+} from './description-formatter';
+import { applyOverrides, loadOverrides } from './overrides';
+import { formatJson } from './json-format';
+import { pathToActionId, resolveActionIds, resolveTriggerIds } from './action-ids';
+import { resolveAuthConfig, type AuthConfig } from './auth-config';
+import { getProviderProfile, type ProviderProfile } from './providers';
+import { loadDocument, loadSpec, type SpecCacheOptions } from './spec-loader';
+import { generateTriggers, type EventFilter } from './webhook-events';
+import { manifestFiles } from './manifest-shards';
+import { detectLayout, listManifestFiles, readManifest } from './manifest-loader';
+import { buildMCPTools } from './mcp-tools';
+import { inferPagination } from './pagination';
 
 // OpenAPI spec sources for major providers
 export const OPENAPI_SOURCES = {
@@ -26,147 +52,55 @@ export const WEBHOOK_SOURCES = {
   sendgrid: 'https://docs.sendgrid.com/for-developers/tracking-events/event',
 } as const;
 
-interface OpenAPISpec {
-  openapi: string;
-  info: {
-    title: string;
-    version: string;
-    description?: string;
-  };
-  paths: Record<string, PathItem>;
-  components?: {
-    schemas?: Record<string, Schema>;
-    securitySchemes?: Record<string, SecurityScheme>;
-  };
-  webhooks?: Record<string, WebhookItem>;
-}
-
-interface PathItem {
-  get?: Operation;
-  post?: Operation;
-  put?: Operation;
-  patch?: Operation;
-  delete?: Operation;
-  summary?: string;
-  description?: string;
-  parameters?: Parameter[];
-}
-
-interface Operation {
-  operationId?: string;
-  summary?: string;
-  description?: string;
-  tags?: string[];
-  parameters?: Parameter[];
-  requestBody?: RequestBody;
-  responses?: Record<string, Response>;
-  deprecated?: boolean;
-  'x-stripeResource'?: {
-    class_name: string;
-    in_package: string;
-  };
-}
-
-interface Parameter {
-  name: string;
-  in: 'path' | 'query' | 'header' | 'cookie';
-  description?: string;
-  required?: boolean;
-  schema?: Schema;
-  deprecated?: boolean;
-}
-
-interface RequestBody {
-  description?: string;
-  required?: boolean;
-  content?: Record<string, MediaType>;
-}
-
-interface MediaType {
-  schema?: Schema;
-}
-
-interface Schema {
-  type?: string;
-  format?: string;
-  description?: string;
-  properties?: Record<string, Schema>;
-  items?: Schema;
-  required?: string[];
-  enum?: string[];
-  oneOf?: Schema[];
-  anyOf?: Schema[];
-  allOf?: Schema[];
-  $ref?: string;
-  nullable?: boolean;
-  default?: unknown;
-  minimum?: number;
-  maximum?: number;
-}
-
-interface Response {
-  description?: string;
-  content?: Record<string, MediaType>;
-}
-
-interface SecurityScheme {
-  type: string;
-  scheme?: string;
-  bearerFormat?: string;
-  in?: string;
-  name?: string;
+export interface GenerateOptions {
+  /** Write adapter.json and manifest.json to `<outDir>/<slug>/` */
+  outDir?: string;
+  /** Length limits for descriptions, summaries and MCP tool descriptions */
+  descriptionLimits?: Partial<DescriptionLimits>;
+  /** Apply `<overridesDir>/<slug>/overrides.json` if present (default: outDir) */
+  overridesDir?: string;
+  /** Spec cache location and offline mode */
+  specCache?: SpecCacheOptions;
+  /** Manifest layout to write (default: keep the adapter's current layout, else single) */
+  layout?: ManifestLayout;
 }
 
-interface WebhookItem {
-  post?: Operation;
-}
+type Describe = (raw: string) => FormattedDescription;
 
-interface GeneratedAdapter {
+/**
+ * An adapter built from a spec, before overrides are applied and files are written
+ */
+export interface GeneratedAdapter {
   slug: string;
   name: string;
   version: string;
   description: string;
+  baseUrl?: string;
   actions: ActionDefinition[];
   triggers: TriggerDefinition[];
   totalEndpoints: number;
   totalWebhooks: number;
   categories: string[];
+  profile: ProviderProfile;
+  authentication: AuthConfig;
+  /** Kind of source document, recorded as adapter.json `generatedFrom` */
+  generatedFrom: 'openapi' | 'postman';
 }
 
-/**
- * Fetch and parse an OpenAPI spec
- */
-export async function fetchOpenAPISpec(url: string): Promise<OpenAPISpec> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch OpenAPI spec: ${response.status}`);
-  }
-  return response.json();
+export interface WrittenAdapter {
+  adapterJson: Record<string, unknown>;
+  manifestJson: Record<string, unknown>;
+  stats: { actions: number; triggers: number; categories: string[]; unmatchedOverrides: string[] };
 }
 
 /**
- * Convert OpenAPI path to action ID
- * e.g., "/v1/customers/{customer}" + "get" -> "get_customer"
+ * Fetch and parse an OpenAPI spec from a URL, file:// URL or local path,
+ * in JSON or YAML. Swagger 2.0 specs are normalized to OpenAPI 3.
  */
-function pathToActionId(path: string, method: string, operationId?: string): string {
-  if (operationId) {
-    // Use operationId if available (Stripe uses these)
-    return operationId
-      .replace(/([A-Z])/g, '_$1')
-      .toLowerCase()
-      .replace(/^_/, '')
-      .replace(/__+/g, '_');
-  }
-
-  // Generate from path
-  const cleanPath = path
-    .replace(/\/v\d+\//g, '/') // Remove version prefix
-    .replace(/\{[^}]+\}/g, '') // Remove path params
-    .replace(/\//g, '_')
-    .replace(/^_|_$/g, '')
-    .replace(/__+/g, '_');
-
-  return `${method}_${cleanPath}`.toLowerCase();
+export async function fetchOpenAPISpec(source: string, cache: SpecCacheOptions = {}): Promise<OpenAPISpec> {
+  const { spec, hash, origin } = await loadSpec(source, cache);
+  console.log(`  spec ${hash.slice(0, 12)} (${origin})`);
+  return spec;
 }
 
 /**
@@ -200,67 +134,89 @@ function pathToActionName(path: string, method: string, summary?: string): strin
 }
 
 /**
- * Convert OpenAPI schema to JSON Schema for action config
+ * Convert a tag, package or path segment to a snake_case category id
  */
-function convertSchema(schema: Schema | undefined, spec: OpenAPISpec): Record<string, unknown> {
-  if (!schema) {
-    return { type: 'object', properties: {} };
-  }
+function toCategoryId(value: string): string {
+  return value
+    .replace(/\.json$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .toLowerCase();
+}
 
-  // Handle $ref
-  if (schema.$ref) {
-    const refPath = schema.$ref.replace('#/components/schemas/', '');
-    const refSchema = spec.components?.schemas?.[refPath];
-    if (refSchema) {
-      return convertSchema(refSchema, spec);
-    }
+/**
+ * Extract category from tags, the x-stripeResource package or the path
+ *
+ * Stripe's spec has no tags, so its actions fall through to the resource
+ * package (issuing, treasury, checkout, ...) or the first path segment
+ * (customers, payment_intents, ...).
+ */
+export function extractCategory(path: string, operation: Pick<Operation, 'tags' | 'x-stripeResource'>): string {
+  if (operation.tags && operation.tags.length > 0) {
+    // Twilio's tags carry the API version: Api20100401Message
+    return toCategoryId(operation.tags[0].replace(/^Api\d{8}(?=[A-Z])/, ''));
   }
 
-  const result: Record<string, unknown> = {};
+  const stripePackage = operation['x-stripeResource']?.in_package;
+  if (stripePackage) {
+    return toCategoryId(stripePackage);
+  }
 
-  if (schema.type) result.type = schema.type;
-  if (schema.format) result.format = schema.format;
-  if (schema.description) result.description = schema.description;
-  if (schema.enum) result.enum = schema.enum;
-  if (schema.minimum !== undefined) result.minimum = schema.minimum;
-  if (schema.maximum !== undefined) result.maximum = schema.maximum;
-  if (schema.default !== undefined) result.default = schema.default;
+  // Extract from path, skipping version prefixes like /v1 or /2010-04-01
+  const segments = path
+    .split('/')
+    .filter(segment => segment && !/^(v\d+|\d{4}-\d{2}-\d{2})$/.test(segment) && !segment.startsWith('{'));
+  return segments[0] ? toCategoryId(segments[0]) : 'general';
+}
 
-  if (schema.properties) {
-    result.properties = {};
-    for (const [key, propSchema] of Object.entries(schema.properties)) {
-      (result.properties as Record<string, unknown>)[key] = convertSchema(propSchema, spec);
+/**
+ * Build the manifest category index with action and trigger counts
+ */
+export function buildCategoryIndex(
+  actions: ActionDefinition[],
+  triggers: TriggerDefinition[]
+): CategoryIndexEntry[] {
+  const index = new Map<string, CategoryIndexEntry>();
+  const entry = (id: string) => {
+    if (!index.has(id)) {
+      const name = id.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+      index.set(id, { id, name, actions: 0, triggers: 0 });
     }
-  }
+    return index.get(id)!;
+  };
 
-  if (schema.items) {
-    result.items = convertSchema(schema.items, spec);
-  }
+  actions.forEach(action => entry(action.category).actions++);
+  triggers.forEach(trigger => trigger.category && entry(trigger.category).triggers++);
 
-  if (schema.required) {
-    result.required = schema.required;
-  }
-
-  return result;
+  return [...index.values()].sort((a, b) => b.actions - a.actions || a.id.localeCompare(b.id));
 }
 
 /**
- * Extract category from path or tags
+ * Request content types in order of preference
  */
-function extractCategory(path: string, tags?: string[]): string {
-  if (tags && tags.length > 0) {
-    return tags[0].toLowerCase().replace(/\s+/g, '_');
-  }
+const REQUEST_CONTENT_TYPES = [
+  'application/json',
+  'application/x-www-form-urlencoded',
+  'multipart/form-data',
+];
 
-  // Extract from path
-  const segments = path.replace(/\/v\d+\//g, '/').split('/').filter(Boolean);
-  return segments[0] || 'general';
+/**
+ * Pick the request body media type the action will send
+ */
+function selectRequestContent(
+  requestBody: RequestBody | undefined
+): { contentType: string; media: MediaType } | undefined {
+  if (!requestBody?.content) return undefined;
+
+  const contentType = REQUEST_CONTENT_TYPES.find(type => requestBody.content?.[type]);
+  return contentType ? { contentType, media: requestBody.content[contentType] } : undefined;
 }
 
 /**
  * Generate actions from OpenAPI paths
  */
-function generateActions(spec: OpenAPISpec): ActionDefinition[] {
+function generateActions(spec: OpenAPISpec, resolver: SchemaResolver, describe: Describe): ActionDefinition[] {
   const actions: ActionDefinition[] = [];
   const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
 
@@ -271,60 +227,81 @@ function generateActions(spec: OpenAPISpec): ActionDefinition[] {
 
       const actionId = pathToActionId(path, method, operation.operationId);
       const actionName = pathToActionName(path, method, operation.summary);
-      const category = extractCategory(path, operation.tags);
+      const category = extractCategory(path, operation);
 
-      // Build config schema from parameters and request body
-      const properties: Record<string, unknown> = {};
+      // Build config schema from parameters and request body; $defs are shared across both
+      const configScope = resolver.createScope();
+      const properties: Record<string, JSONSchema> = {};
       const required: string[] = [];
+      const parameterLocations: Record<string, ParameterLocation> = {};
 
-      // Add path and query parameters
+      // Add path, query and header parameters
       const allParams = [...(pathItem.parameters || []), ...(operation.parameters || [])];
-      for (const param of allParams) {
-        if (param.deprecated) continue;
+      for (const param of allParams.map(resolver.deref)) {
+        if (param.deprecated || param.in === 'cookie') continue;
 
         properties[param.name] = {
-          ...convertSchema(param.schema, spec),
+          ...configScope.convert(param.schema),
           description: param.description,
         };
+        parameterLocations[param.name] = param.in;
 
-        if (param.required) {
+        if (param.required && !required.includes(param.name)) {
           required.push(param.name);
         }
       }
 
-      // Add request body properties
-      if (operation.requestBody?.content) {
-        const jsonContent = operation.requestBody.content['application/json'] ||
-                           operation.requestBody.content['application/x-www-form-urlencoded'];
-        if (jsonContent?.schema) {
-          const bodySchema = convertSchema(jsonContent.schema, spec);
-          if (bodySchema.properties) {
-            Object.assign(properties, bodySchema.properties);
-          }
-          if (bodySchema.required && Array.isArray(bodySchema.required)) {
-            required.push(...bodySchema.required);
-          }
+      // Add request body properties (path parameters win on name clashes)
+      const body = selectRequestContent(operation.requestBody && resolver.deref(operation.requestBody));
+      if (body?.media.schema) {
+        const bodySchema = configScope.convert(body.media.schema);
+        for (const [key, propSchema] of Object.entries(bodySchema.properties || {})) {
+          if (parameterLocations[key] === 'path') continue;
+          properties[key] = propSchema;
+          parameterLocations[key] = 'body';
+        }
+        for (const key of bodySchema.required || []) {
+          if (!required.includes(key)) required.push(key);
         }
       }
 
       // Build response schema
-      let responseSchema: Record<string, unknown> | undefined;
-      const successResponse = operation.responses?.['200'] || operation.responses?.['201'];
-      if (successResponse?.content?.['application/json']?.schema) {
-        responseSchema = convertSchema(successResponse.content['application/json'].schema, spec);
+      let responseSchema: JSONSchema | undefined;
+      const rawResponse = operation.responses?.['200'] || operation.responses?.['201'];
+      const successResponse = rawResponse && resolver.deref(rawResponse);
+      const rawResponseSchema = successResponse?.content?.['application/json']?.schema;
+      if (rawResponseSchema) {
+        responseSchema = resolver.convert(rawResponseSchema);
       }
 
+      const queryParams = allParams.map(resolver.deref)
+        .filter(param => param.in === 'query')
+        .map(param => ({ name: param.name, description: param.description, schema: param.schema && resolver.deref(param.schema) }));
+      const pagination = method === 'get' && rawResponseSchema
+        ? inferPagination(queryParams, resolver.deref(rawResponseSchema))
+        : undefined;
+
+      const { description, summary } = describe(
+        operation.description || operation.summary || `${method.toUpperCase()} ${path}`
+      );
+
       actions.push({
         id: actionId,
         name: actionName,
-        description: operation.description || operation.summary || `${method.toUpperCase()} ${path}`,
+        description,
+        summary,
         category,
-        configSchema: {
-          type: 'object',
+        method: method.toUpperCase() as HttpMethod,
+        endpoint: path,
+        parameterLocations,
+        ...(body ? { contentType: body.contentType } : {}),
+        configSchema: configScope.finish({
+          type: 'object' as const,
           properties,
           ...(required.length > 0 ? { required } : {}),
-        },
+        }),
         ...(responseSchema ? { responseSchema } : {}),
+        ...(pagination ? { pagination } : {}),
       });
     }
   }
@@ -332,210 +309,7 @@ function generateActions(spec: OpenAPISpec): ActionDefinition[] {
   return actions;
 }
 
-/**
- * Generate triggers from OpenAPI webhooks section or known webhook events
- */
-function generateTriggers(spec: OpenAPISpec, knownEvents?: string[]): TriggerDefinition[] {
-  const triggers: TriggerDefinition[] = [];
-
-  // From OpenAPI webhooks section (if present)
-  if (spec.webhooks) {
-    for (const [eventName, webhook] of Object.entries(spec.webhooks)) {
-      const operation = webhook.post;
-      triggers.push({
-        id: eventName.replace(/\./g, '_'),
-        name: operation?.summary || eventName.replace(/\./g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
-        description: operation?.description || `Triggered on ${eventName}`,
-        event: eventName,
-        payloadSchema: operation?.requestBody?.content?.['application/json']?.schema
-          ? convertSchema(operation.requestBody.content['application/json'].schema, spec)
-          : undefined,
-      });
-    }
-  }
-
-  // Add known webhook events
-  if (knownEvents) {
-    for (const event of knownEvents) {
-      const existingTrigger = triggers.find(t => t.event === event);
-      if (!existingTrigger) {
-        triggers.push({
-          id: event.replace(/\./g, '_'),
-          name: event.replace(/\./g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
-          description: `Triggered on ${event}`,
-          event,
-        });
-      }
-    }
-  }
-
-  return triggers;
-}
-
-/**
- * Stripe webhook events (complete list)
- */
-export const STRIPE_WEBHOOK_EVENTS = [
-  // Account events
-  'account.updated', 'account.application.authorized', 'account.application.deauthorized',
-  'account.external_account.created', 'account.external_account.deleted', 'account.external_account.updated',
-
-  // Application fee events
-  'application_fee.created', 'application_fee.refunded', 'application_fee.refund.updated',
-
-  // Balance events
-  'balance.available',
-
-  // Billing portal events
-  'billing_portal.configuration.created', 'billing_portal.configuration.updated',
-  'billing_portal.session.created',
-
-  // Charge events
-  'charge.captured', 'charge.expired', 'charge.failed', 'charge.pending', 'charge.refunded',
-  'charge.succeeded', 'charge.updated',
-  'charge.dispute.closed', 'charge.dispute.created', 'charge.dispute.funds_reinstated',
-  'charge.dispute.funds_withdrawn', 'charge.dispute.updated',
-  'charge.refund.updated',
-
-  // Checkout events
-  'checkout.session.async_payment_failed', 'checkout.session.async_payment_succeeded',
-  'checkout.session.completed', 'checkout.session.expired',
-
-  // Coupon events
-  'coupon.created', 'coupon.deleted', 'coupon.updated',
-
-  // Credit note events
-  'credit_note.created', 'credit_note.updated', 'credit_note.voided',
-
-  // Customer events
-  'customer.created', 'customer.deleted', 'customer.updated',
-  'customer.discount.created', 'customer.discount.deleted', 'customer.discount.updated',
-  'customer.source.created', 'customer.source.deleted', 'customer.source.expiring', 'customer.source.updated',
-  'customer.subscription.created', 'customer.subscription.deleted', 'customer.subscription.paused',
-  'customer.subscription.pending_update_applied', 'customer.subscription.pending_update_expired',
-  'customer.subscription.resumed', 'customer.subscription.trial_will_end', 'customer.subscription.updated',
-  'customer.tax_id.created', 'customer.tax_id.deleted', 'customer.tax_id.updated',
-
-  // File events
-  'file.created',
-
-  // Invoice events
-  'invoice.created', 'invoice.deleted', 'invoice.finalization_failed', 'invoice.finalized',
-  'invoice.marked_uncollectible', 'invoice.paid', 'invoice.payment_action_required',
-  'invoice.payment_failed', 'invoice.payment_succeeded', 'invoice.sent',
-  'invoice.upcoming', 'invoice.updated', 'invoice.voided',
-  'invoiceitem.created', 'invoiceitem.deleted',
-
-  // Issuing events
-  'issuing_authorization.created', 'issuing_authorization.updated',
-  'issuing_card.created', 'issuing_card.updated',
-  'issuing_cardholder.created', 'issuing_cardholder.updated',
-  'issuing_dispute.closed', 'issuing_dispute.created', 'issuing_dispute.funds_reinstated',
-  'issuing_dispute.submitted', 'issuing_dispute.updated',
-  'issuing_transaction.created', 'issuing_transaction.updated',
-
-  // Mandate events
-  'mandate.updated',
-
-  // Payment intent events
-  'payment_intent.amount_capturable_updated', 'payment_intent.canceled', 'payment_intent.created',
-  'payment_intent.partially_funded', 'payment_intent.payment_failed', 'payment_intent.processing',
-  'payment_intent.requires_action', 'payment_intent.succeeded',
-
-  // Payment link events
-  'payment_link.created', 'payment_link.updated',
-
-  // Payment method events
-  'payment_method.attached', 'payment_method.automatically_updated', 'payment_method.detached',
-  'payment_method.updated',
-
-  // Payout events
-  'payout.canceled', 'payout.created', 'payout.failed', 'payout.paid',
-  'payout.reconciliation_completed', 'payout.updated',
-
-  // Person events
-  'person.created', 'person.deleted', 'person.updated',
-
-  // Plan events
-  'plan.created', 'plan.deleted', 'plan.updated',
-
-  // Price events
-  'price.created', 'price.deleted', 'price.updated',
-
-  // Product events
-  'product.created', 'product.deleted', 'product.updated',
-
-  // Promotion code events
-  'promotion_code.created', 'promotion_code.updated',
-
-  // Quote events
-  'quote.accepted', 'quote.canceled', 'quote.created', 'quote.finalized',
-
-  // Radar events
-  'radar.early_fraud_warning.created', 'radar.early_fraud_warning.updated',
-
-  // Refund events
-  'refund.created', 'refund.updated',
-
-  // Reporting events
-  'reporting.report_run.failed', 'reporting.report_run.succeeded',
-  'reporting.report_type.updated',
-
-  // Review events
-  'review.closed', 'review.opened',
-
-  // Setup intent events
-  'setup_intent.canceled', 'setup_intent.created', 'setup_intent.requires_action',
-  'setup_intent.setup_failed', 'setup_intent.succeeded',
-
-  // Sigma events
-  'sigma.scheduled_query_run.created',
-
-  // Source events
-  'source.canceled', 'source.chargeable', 'source.failed',
-  'source.mandate_notification', 'source.refund_attributes_required',
-  'source.transaction.created', 'source.transaction.updated',
-
-  // Subscription schedule events
-  'subscription_schedule.aborted', 'subscription_schedule.canceled', 'subscription_schedule.completed',
-  'subscription_schedule.created', 'subscription_schedule.expiring', 'subscription_schedule.released',
-  'subscription_schedule.updated',
-
-  // Tax rate events
-  'tax_rate.created', 'tax_rate.updated',
-
-  // Terminal events
-  'terminal.reader.action_failed', 'terminal.reader.action_succeeded',
-
-  // Test helpers events
-  'test_helpers.test_clock.advancing', 'test_helpers.test_clock.created',
-  'test_helpers.test_clock.deleted', 'test_helpers.test_clock.internal_failure',
-  'test_helpers.test_clock.ready',
-
-  // Topup events
-  'topup.canceled', 'topup.created', 'topup.failed', 'topup.reversed', 'topup.succeeded',
-
-  // Transfer events
-  'transfer.created', 'transfer.reversed', 'transfer.updated',
-
-  // Treasury events (if using Stripe Treasury)
-  'treasury.credit_reversal.created', 'treasury.credit_reversal.posted',
-  'treasury.debit_reversal.completed', 'treasury.debit_reversal.created',
-  'treasury.debit_reversal.initial_credit_granted',
-  'treasury.financial_account.closed', 'treasury.financial_account.created',
-  'treasury.financial_account.features_status_updated',
-  'treasury.inbound_transfer.canceled', 'treasury.inbound_transfer.created',
-  'treasury.inbound_transfer.failed', 'treasury.inbound_transfer.succeeded',
-  'treasury.outbound_payment.canceled', 'treasury.outbound_payment.created',
-  'treasury.outbound_payment.expected_arrival_date_updated', 'treasury.outbound_payment.failed',
-  'treasury.outbound_payment.posted', 'treasury.outbound_payment.returned',
-  'treasury.outbound_transfer.canceled', 'treasury.outbound_transfer.created',
-  'treasury.outbound_transfer.expected_arrival_date_updated', 'treasury.outbound_transfer.failed',
-  'treasury.outbound_transfer.posted', 'treasury.outbound_transfer.returned',
-  'treasury.received_credit.created', 'treasury.received_credit.failed',
-  'treasury.received_credit.succeeded',
-  'treasury.received_debit.created',
-];
+const DEFAULT_RATE_LIMIT = { requestsPerMinute: 60 };
 
 /**
  * Generate a complete adapter from an OpenAPI spec
@@ -544,16 +318,24 @@ export async function generateAdapterFromOpenAPI(
   slug: string,
   name: string,
   specUrl: string,
-  knownWebhookEvents?: string[]
+  events?: EventFilter,
+  options: GenerateOptions = {}
 ): Promise<GeneratedAdapter> {
   console.log(`Fetching OpenAPI spec from ${specUrl}...`);
-  const spec = await fetchOpenAPISpec(specUrl);
+  const spec = await fetchOpenAPISpec(specUrl, options.specCache);
+  const documents = await loadExternalDocuments(spec, specUrl, uri => loadDocument(uri, options.specCache));
+  const resolver = createSchemaResolver(spec, { baseUri: specUrl, documents });
+
+  // Provider HTML becomes markdown with links resolved against the API docs
+  const limits = { ...DEFAULT_DESCRIPTION_LIMITS, ...options.descriptionLimits };
+  const profile = getProviderProfile(slug, spec);
+  const describe: Describe = raw => formatDescription(raw, profile.provider.documentation, limits);
 
   console.log(`Generating actions from ${Object.keys(spec.paths).length} paths...`);
-  const actions = generateActions(spec);
+  const actions = resolveActionIds(generateActions(spec, resolver, describe));
 
   console.log(`Generating triggers...`);
-  const triggers = generateTriggers(spec, knownWebhookEvents);
+  const triggers = resolveTriggerIds(generateTriggers(spec, resolver, describe, events));
 
   // Extract unique categories
   const categories = [...new Set(actions.map(a => a.category))].filter(Boolean);
@@ -562,203 +344,183 @@ export async function generateAdapterFromOpenAPI(
     slug,
     name,
     version: spec.info.version || '1.0.0',
-    description: spec.info.description || `${name} integration`,
+    description: spec.info.description ? describe(spec.info.description).summary : `${name} integration`,
+    baseUrl: spec.servers?.[0]?.url.replace(/\/$/, ''),
     actions,
     triggers,
     totalEndpoints: actions.length,
     totalWebhooks: triggers.length,
     categories,
+    profile,
+    authentication: resolveAuthConfig(slug, spec, resolver, profile),
+    generatedFrom: 'openapi',
   };
 }
 
 /**
- * Generate the full Stripe adapter
+ * The manifest files to write, serialized, keyed by path relative to the
+ * adapter directory. Files already in the directory keep their layout, so
+ * hand-written manifests only change where their content does.
  */
-export async function generateStripeAdapter(): Promise<GeneratedAdapter> {
-  return generateAdapterFromOpenAPI(
-    'stripe',
-    'Stripe',
-    OPENAPI_SOURCES.stripe,
-    STRIPE_WEBHOOK_EVENTS
+function serializeManifest(manifestJson: Record<string, unknown>, layout: ManifestLayout, adapterDir?: string): Map<string, string> {
+  const manifest = manifestJson as unknown as AdapterManifest;
+  const categories = manifest.categories || buildCategoryIndex(manifest.actions, manifest.triggers);
+  const existing = (file: string) =>
+    adapterDir && existsSync(join(adapterDir, file)) ? readFileSync(join(adapterDir, file), 'utf8') : undefined;
+  return new Map(
+    Object.entries(manifestFiles(manifest, layout, categories)).map(([file, content]) => [file, formatJson(content, existing(file))])
   );
 }
 
+/**
+ * Keep the previous generatedAt when nothing else in the adapter changed,
+ * so regenerating from the same spec leaves the files untouched
+ */
+function preserveGeneratedAt(
+  adapterDir: string,
+  adapterJson: Record<string, unknown>,
+  files: Map<string, string>
+): Record<string, unknown> {
+  const adapterFile = join(adapterDir, 'adapter.json');
+  const existing = listManifestFiles(adapterDir);
+  if (!existsSync(adapterFile) || existing.length === 0) return adapterJson;
+
+  const previous = JSON.parse(readFileSync(adapterFile, 'utf8'));
+  const unchanged =
+    JSON.stringify({ ...previous, generatedAt: undefined }) === JSON.stringify({ ...adapterJson, generatedAt: undefined }) &&
+    existing.length === files.size &&
+    existing.every(file => files.get(file) === readFileSync(join(adapterDir, file), 'utf8'));
+
+  return unchanged && previous.generatedAt ? { ...adapterJson, generatedAt: previous.generatedAt } : adapterJson;
+}
+
+/**
+ * Write the manifest in the given layout, removing files of the other layout
+ * and shards that are no longer used
+ */
+export function writeManifestFiles(
+  adapterDir: string,
+  manifestJson: Record<string, unknown>,
+  layout: ManifestLayout = detectLayout(adapterDir) || 'single',
+  files: Map<string, string> = serializeManifest(manifestJson, layout, adapterDir)
+): void {
+  for (const file of listManifestFiles(adapterDir)) {
+    if (!files.has(file)) rmSync(join(adapterDir, file));
+  }
+  for (const [file, content] of files) {
+    mkdirSync(dirname(join(adapterDir, file)), { recursive: true });
+    writeFileSync(join(adapterDir, file), content);
+  }
+}
+
+/**
+ * Write adapter.json and the manifest into an adapter directory
+ *
+ * The manifest keeps the directory's current layout unless one is given.
+ */
+export function writeAdapterFiles(
+  adapterDir: string,
+  adapterJson: Record<string, unknown>,
+  manifestJson: Record<string, unknown>,
+  layout: ManifestLayout = detectLayout(adapterDir) || 'single'
+): void {
+  const files = serializeManifest(manifestJson, layout, adapterDir);
+  adapterJson = preserveGeneratedAt(adapterDir, adapterJson, files);
+  mkdirSync(adapterDir, { recursive: true });
+  writeFileSync(join(adapterDir, 'adapter.json'), JSON.stringify(adapterJson, null, 2) + '\n');
+  writeManifestFiles(adapterDir, manifestJson, layout, files);
+}
+
 /**
  * Generate adapter and write to registry format
+ *
+ * Files are written to `<outDir>/<slug>/` when options.outDir is given;
+ * otherwise the generated JSON is only returned.
  */
 export async function generateAndWriteAdapter(
   slug: string,
   name: string,
   specUrl: string,
-  knownWebhookEvents?: string[]
-): Promise<{
-  adapterJson: Record<string, unknown>;
-  manifestJson: Record<string, unknown>;
-  stats: { actions: number; triggers: number; categories: string[] };
-}> {
-  const adapter = await generateAdapterFromOpenAPI(slug, name, specUrl, knownWebhookEvents);
+  events?: EventFilter,
+  options: GenerateOptions = {}
+): Promise<WrittenAdapter> {
+  const adapter = await generateAdapterFromOpenAPI(slug, name, specUrl, events, options);
+  return writeGeneratedAdapter(adapter, options);
+}
+
+/**
+ * Build adapter.json and manifest.json for a generated adapter, apply its
+ * overrides and write them to `<outDir>/<slug>/` when options.outDir is given
+ */
+export function writeGeneratedAdapter(adapter: GeneratedAdapter, options: GenerateOptions = {}): WrittenAdapter {
+  const { slug } = adapter;
+  const limits = { ...DEFAULT_DESCRIPTION_LIMITS, ...options.descriptionLimits };
 
-  const adapterJson = {
+  const generatedAdapterJson = {
+    $schema: '../../schemas/adapter.schema.json',
     slug: adapter.slug,
     name: adapter.name,
     version: adapter.version,
     description: adapter.description,
-    type: getAdapterType(slug),
+    type: adapter.profile.type,
+    ...(adapter.baseUrl ? { base_url: adapter.baseUrl } : {}),
     provider: {
       name: adapter.name,
-      website: getProviderWebsite(slug),
-      documentation: getProviderDocs(slug),
+      ...adapter.profile.provider,
     },
-    authentication: getAuthConfig(slug),
-    rateLimit: getRateLimitConfig(slug),
-    generatedFrom: 'openapi',
+    authentication: adapter.authentication,
+    rateLimit: adapter.profile.rateLimit || DEFAULT_RATE_LIMIT,
+    generatedFrom: adapter.generatedFrom,
     generatedAt: new Date().toISOString(),
   };
 
-  const manifestJson = {
-    actions: adapter.actions,
-    triggers: adapter.triggers,
-    webhooks: getWebhookConfig(slug),
-    mcp: {
-      tools: generateMCPTools(adapter),
-    },
-  };
-
-  return {
-    adapterJson,
-    manifestJson,
-    stats: {
-      actions: adapter.actions.length,
-      triggers: adapter.triggers.length,
-      categories: adapter.categories,
-    },
-  };
-}
-
-// Helper functions for adapter metadata
-function getAdapterType(slug: string): string {
-  const types: Record<string, string> = {
-    stripe: 'payment',
-    twilio: 'sms',
-    sendgrid: 'email',
-    docusign: 'esignature',
-    xero: 'accounting',
-    sumsub: 'kyc',
-  };
-  return types[slug] || 'custom';
-}
+  // A spec that declares no events can't describe triggers, so the adapter's
+  // existing triggers and webhook signing are kept, as the Postman importer does
+  const overridesDir = options.overridesDir ?? options.outDir;
+  const existing = adapter.triggers.length === 0 && overridesDir ? readManifest(join(overridesDir, slug)) : undefined;
+  const generatedTriggers = existing?.triggers || adapter.triggers;
 
-function getProviderWebsite(slug: string): string {
-  const sites: Record<string, string> = {
-    stripe: 'https://stripe.com',
-    twilio: 'https://twilio.com',
-    sendgrid: 'https://sendgrid.com',
-    docusign: 'https://docusign.com',
-    xero: 'https://xero.com',
-    sumsub: 'https://sumsub.com',
+  const generatedManifestJson = {
+    $schema: '../../schemas/adapter-manifest.schema.json',
+    categories: buildCategoryIndex(adapter.actions, generatedTriggers),
+    actions: adapter.actions,
+    triggers: generatedTriggers,
+    webhooks: adapter.profile.webhooks || existing?.webhooks || { supported: false },
   };
-  return sites[slug] || '';
-}
 
-function getProviderDocs(slug: string): string {
-  const docs: Record<string, string> = {
-    stripe: 'https://stripe.com/docs/api',
-    twilio: 'https://www.twilio.com/docs/api',
-    sendgrid: 'https://docs.sendgrid.com/api-reference',
-    docusign: 'https://developers.docusign.com/docs',
-    xero: 'https://developer.xero.com/documentation',
-    sumsub: 'https://docs.sumsub.com',
+  // Hand-curated overrides win over generated output
+  const overrides = overridesDir ? loadOverrides(join(overridesDir, slug)) : undefined;
+  const { adapterJson, manifestJson, unmatched } = applyOverrides(generatedAdapterJson, generatedManifestJson, overrides);
+
+  // Hidden or re-categorised entries change the category index and tools;
+  // curated mcpTools from the overrides are kept ahead of generated ones
+  const actions = manifestJson.actions as ActionDefinition[];
+  const triggers = manifestJson.triggers as TriggerDefinition[];
+  manifestJson.categories = buildCategoryIndex(actions, triggers);
+  manifestJson.mcp = {
+    tools: buildMCPTools(slug, adapter.name, actions, {
+      curated: (manifestJson.mcp as AdapterManifest['mcp'])?.tools,
+      budget: adapter.profile.mcp,
+      descriptionLimit: limits.mcp,
+    }),
   };
-  return docs[slug] || '';
-}
 
-function getAuthConfig(slug: string): Record<string, unknown> {
-  // Return auth configuration based on provider
-  const configs: Record<string, Record<string, unknown>> = {
-    stripe: {
-      type: 'api_key',
-      fields: [
-        { name: 'secret_key', label: 'Secret Key', type: 'password', required: true },
-        { name: 'publishable_key', label: 'Publishable Key', type: 'text', required: false },
-        { name: 'webhook_secret', label: 'Webhook Signing Secret', type: 'password', required: false },
-      ],
-    },
-    twilio: {
-      type: 'api_key',
-      fields: [
-        { name: 'account_sid', label: 'Account SID', type: 'text', required: true },
-        { name: 'auth_token', label: 'Auth Token', type: 'password', required: true },
-      ],
-    },
-    sendgrid: {
-      type: 'api_key',
-      fields: [
-        { name: 'api_key', label: 'API Key', type: 'password', required: true },
-      ],
-    },
-  };
-  return configs[slug] || { type: 'api_key', fields: [] };
-}
+  for (const entry of unmatched) {
+    console.warn(`  ⚠ ${slug}/overrides.json: ${entry} matches no generated entry`);
+  }
 
-function getRateLimitConfig(slug: string): Record<string, unknown> {
-  const limits: Record<string, Record<string, unknown>> = {
-    stripe: { requestsPerMinute: 100, requestsPerSecond: 25 },
-    twilio: { requestsPerMinute: 100 },
-    sendgrid: { requestsPerMinute: 600 },
-  };
-  return limits[slug] || { requestsPerMinute: 60 };
-}
+  if (options.outDir) {
+    writeAdapterFiles(join(options.outDir, slug), adapterJson, manifestJson, options.layout);
+  }
 
-function getWebhookConfig(slug: string): Record<string, unknown> {
-  const configs: Record<string, Record<string, unknown>> = {
-    stripe: {
-      supported: true,
-      signatureHeader: 'stripe-signature',
-      signatureAlgorithm: 'hmac-sha256',
-    },
-    twilio: {
-      supported: true,
-      signatureHeader: 'x-twilio-signature',
-      signatureAlgorithm: 'hmac-sha1',
-    },
-    sendgrid: {
-      supported: true,
-      signatureHeader: 'x-twilio-email-event-webhook-signature',
-      signatureAlgorithm: 'ecdsa',
+  return {
+    adapterJson,
+    manifestJson,
+    stats: {
+      actions: actions.length,
+      triggers: triggers.length,
+      categories: [...new Set(actions.map(action => action.category))].filter(Boolean),
+      unmatchedOverrides: unmatched,
     },
   };
-  return configs[slug] || { supported: false };
-}
-
-function generateMCPTools(adapter: GeneratedAdapter): Array<Record<string, unknown>> {
-  // Generate smart MCP tools that combine multiple actions
-  const tools: Array<Record<string, unknown>> = [];
-
-  // Add a tool for each category that combines common operations
-  for (const category of adapter.categories.slice(0, 20)) { // Limit to prevent huge files
-    const categoryActions = adapter.actions.filter(a => a.category === category);
-    if (categoryActions.length === 0) continue;
-
-    // Find CRUD operations for this category
-    const createAction = categoryActions.find(a => a.id.startsWith('create_') || a.id.startsWith('post_'));
-    const listAction = categoryActions.find(a => a.id.startsWith('list_') || a.id.startsWith('get_') && a.id.includes('all'));
-
-    if (createAction) {
-      tools.push({
-        name: `${adapter.slug}_${category}_create`,
-        description: `Create a new ${category} in ${adapter.name}`,
-        inputSchema: createAction.configSchema,
-      });
-    }
-
-    if (listAction) {
-      tools.push({
-        name: `${adapter.slug}_${category}_list`,
-        description: `List ${category} from ${adapter.name}`,
-        inputSchema: listAction.configSchema,
-      });
-    }
-  }
-
-  return tools;
 }
@@ -0,0 +1,149 @@
+/**
+ * OpenAPI Types
+ *
+ * The subset of the OpenAPI 3.x document model used by the generators.
+ */
+
+export interface Reference {
+  $ref: string;
+}
+
+export interface OpenAPISpec {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+    contact?: { name?: string; url?: string; email?: string };
+  };
+  externalDocs?: { url: string; description?: string };
+  servers?: Array<{ url: string }>;
+  security?: SecurityRequirement[];
+  paths: Record<string, PathItem>;
+  components?: {
+    schemas?: Record<string, Schema>;
+    parameters?: Record<string, Parameter | Reference>;
+    requestBodies?: Record<string, RequestBody | Reference>;
+    responses?: Record<string, Response | Reference>;
+    securitySchemes?: Record<string, SecurityScheme | Reference>;
+  };
+  webhooks?: Record<string, WebhookItem>;
+}
+
+export interface PathItem {
+  get?: Operation;
+  post?: Operation;
+  put?: Operation;
+  patch?: Operation;
+  delete?: Operation;
+  summary?: string;
+  description?: string;
+  parameters?: Array<Parameter | Reference>;
+}
+
+export interface Operation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: Array<Parameter | Reference>;
+  requestBody?: RequestBody | Reference;
+  responses?: Record<string, Response | Reference>;
+  deprecated?: boolean;
+  security?: SecurityRequirement[];
+  'x-stripeResource'?: StripeResource;
+}
+
+export interface StripeResource {
+  class_name: string;
+  in_package: string;
+}
+
+export interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  description?: string;
+  required?: boolean;
+  schema?: Schema;
+  deprecated?: boolean;
+}
+
+export interface RequestBody {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaType>;
+}
+
+export interface MediaType {
+  schema?: Schema;
+}
+
+export interface Schema {
+  type?: string | string[];
+  format?: string;
+  title?: string;
+  description?: string;
+  properties?: Record<string, Schema>;
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  required?: string[];
+  enum?: unknown[];
+  const?: unknown;
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  allOf?: Schema[];
+  $ref?: string;
+  nullable?: boolean;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  deprecated?: boolean;
+  'x-stripeResource'?: StripeResource;
+  /** Marks a Stripe event schema; its `object` property is the event's data.object */
+  'x-stripeEvent'?: {
+    type: string;
+    kind?: string;
+  };
+}
+
+export interface Response {
+  description?: string;
+  content?: Record<string, MediaType>;
+}
+
+export interface SecurityScheme {
+  type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  description?: string;
+  scheme?: string;
+  bearerFormat?: string;
+  in?: 'query' | 'header' | 'cookie';
+  name?: string;
+  flows?: {
+    authorizationCode?: OAuthFlow;
+    clientCredentials?: OAuthFlow;
+    implicit?: OAuthFlow;
+    password?: OAuthFlow;
+  };
+  openIdConnectUrl?: string;
+}
+
+export interface OAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+}
+
+/**
+ * Scheme name to required scopes; any one requirement in a list satisfies it
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface WebhookItem {
+  post?: Operation;
+}
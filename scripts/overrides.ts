@@ -0,0 +1,130 @@
+/**
+ * Adapter Overrides
+ *
+ * Hand-curated overlays in adapters/<slug>/overrides.json that are applied
+ * on top of generated output, so curation survives regeneration.
+ *
+ * - `adapter` and `manifest` are JSON merge patches (RFC 7386): objects merge,
+ *   arrays and scalars replace, and `null` removes a key
+ * - `actions` and `triggers` patch entries by id; `{ "hidden": true }` drops one
+ * - `mcpTools` replaces generated tools with the same name and appends the rest
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { MCPToolDefinition } from './types';
+
+type JsonObject = Record<string, unknown>;
+
+export interface EntryOverride extends JsonObject {
+  hidden?: boolean;
+}
+
+export interface AdapterOverrides {
+  $schema?: string;
+  adapter?: JsonObject;
+  manifest?: JsonObject;
+  actions?: Record<string, EntryOverride>;
+  triggers?: Record<string, EntryOverride>;
+  mcpTools?: MCPToolDefinition[];
+}
+
+export interface OverrideResult {
+  adapterJson: JsonObject;
+  manifestJson: JsonObject;
+  /** Override entries that matched nothing in the generated output, e.g. "actions.get_foo" */
+  unmatched: string[];
+}
+
+export const OVERRIDES_FILE = 'overrides.json';
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply a JSON merge patch (RFC 7386)
+ */
+export function mergePatch<T>(target: T, patch: unknown): T {
+  if (!isObject(patch)) {
+    return patch as T;
+  }
+
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Load adapters/<slug>/overrides.json if it exists
+ */
+export function loadOverrides(adapterDir: string): AdapterOverrides | undefined {
+  const file = join(adapterDir, OVERRIDES_FILE);
+  if (!existsSync(file)) return undefined;
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+/**
+ * Patch or hide entries of a manifest collection by id
+ */
+function applyEntryOverrides(
+  entries: unknown,
+  overrides: Record<string, EntryOverride> | undefined,
+  collection: string,
+  unmatched: string[]
+): unknown {
+  if (!overrides || !Array.isArray(entries)) return entries;
+
+  const ids = new Set(entries.map(entry => (entry as JsonObject).id));
+  for (const id of Object.keys(overrides)) {
+    if (!ids.has(id)) unmatched.push(`${collection}.${id}`);
+  }
+
+  return entries
+    .filter(entry => !overrides[(entry as JsonObject).id as string]?.hidden)
+    .map(entry => {
+      const override = overrides[(entry as JsonObject).id as string];
+      if (!override) return entry;
+      const { hidden: _hidden, ...patch } = override;
+      return mergePatch(entry, patch);
+    });
+}
+
+/**
+ * Apply overrides to generated adapter.json and manifest.json
+ */
+export function applyOverrides(
+  adapterJson: JsonObject,
+  manifestJson: JsonObject,
+  overrides: AdapterOverrides | undefined
+): OverrideResult {
+  if (!overrides) {
+    return { adapterJson, manifestJson, unmatched: [] };
+  }
+
+  const unmatched: string[] = [];
+
+  const manifest: JsonObject = mergePatch(manifestJson, overrides.manifest || {});
+  manifest.actions = applyEntryOverrides(manifest.actions, overrides.actions, 'actions', unmatched);
+  manifest.triggers = applyEntryOverrides(manifest.triggers, overrides.triggers, 'triggers', unmatched);
+
+  if (overrides.mcpTools && overrides.mcpTools.length > 0) {
+    const mcp = isObject(manifest.mcp) ? manifest.mcp : {};
+    const curated = new Set(overrides.mcpTools.map(tool => tool.name));
+    const generated = (Array.isArray(mcp.tools) ? mcp.tools : [])
+      .filter(tool => !curated.has((tool as MCPToolDefinition).name));
+    manifest.mcp = { ...mcp, tools: [...overrides.mcpTools, ...generated] };
+  }
+
+  return {
+    adapterJson: mergePatch(adapterJson, overrides.adapter || {}),
+    manifestJson: manifest,
+    unmatched,
+  };
+}
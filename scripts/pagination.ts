@@ -0,0 +1,155 @@
+/**
+ * Pagination
+ *
+ * Walks every page of a list action per its `pagination` block, and infers
+ * the block for list endpoints that follow Stripe's conventions:
+ *
+ * - lists: `starting_after` / `ending_before` and `limit` query params, with
+ *   `data` and `has_more` in the response
+ * - search: `page` and `limit` query params, with `data`, `has_more` and
+ *   `next_page` in the response
+ */
+
+import type { PaginationDescriptor } from './types';
+import type { ActionExecutor, ActionRequest } from './action-executor';
+
+export interface PaginateOptions {
+  /** Page size to ask for (default: the action's maxLimit) */
+  pageSize?: number;
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+}
+
+/**
+ * A query param as the generators see it
+ */
+interface QueryParam {
+  name: string;
+  description?: string;
+  schema?: { maximum?: number };
+}
+
+/**
+ * The value at a dot-separated path
+ */
+function valueAt(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  );
+}
+
+/**
+ * Largest page size from the param's schema, or from a "between 1 and 100"
+ * description
+ */
+function maxLimitOf(param: QueryParam | undefined): number | undefined {
+  if (typeof param?.schema?.maximum === 'number') return param.schema.maximum;
+  const match = param?.description?.match(/between \d+ and (\d+)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * The pagination block of a GET endpoint with Stripe's list or search
+ * conventions, from its query params and response schema
+ */
+export function inferPagination(
+  queryParams: QueryParam[],
+  response: { properties?: Record<string, unknown> } | undefined
+): PaginationDescriptor | undefined {
+  const fields = response?.properties || {};
+  if (!fields.data || !fields.has_more) return undefined;
+
+  const param = (name: string) => queryParams.find(candidate => candidate.name === name);
+  const limit = param('limit');
+  const paging = {
+    ...(limit ? { limitParam: 'limit' } : {}),
+    ...(maxLimitOf(limit) ? { maxLimit: maxLimitOf(limit) } : {}),
+    itemsPath: 'data',
+    hasMorePath: 'has_more',
+  };
+
+  if (param('starting_after')) return { style: 'cursor', param: 'starting_after', ...paging, cursorField: 'id' };
+  if (param('page') && fields.next_page) return { style: 'cursor', param: 'page', ...paging, nextPath: 'next_page' };
+  return undefined;
+}
+
+/**
+ * Where the next page starts, or undefined on the last page
+ */
+function nextPosition(
+  pagination: PaginationDescriptor,
+  body: unknown,
+  items: unknown[],
+  current: unknown,
+  pageSize: number | undefined
+): unknown {
+  if (pagination.hasMorePath && valueAt(body, pagination.hasMorePath) === false) return undefined;
+  if (items.length === 0) return undefined;
+
+  if (pagination.style === 'cursor') {
+    const next = pagination.nextPath
+      ? valueAt(body, pagination.nextPath)
+      : (items[items.length - 1] as Record<string, unknown> | undefined)?.[pagination.cursorField || 'id'];
+    if (typeof next === 'string' && /^(https?:\/\/|\/)/.test(next)) {
+      return new URL(next, 'http://localhost').searchParams.get(pagination.urlParam || pagination.param) ?? undefined;
+    }
+    return next === null || next === '' ? undefined : next;
+  }
+
+  // Numbered pages and offsets end with a short page, or when the response says there's no next one
+  if (pagination.nextPath && !valueAt(body, pagination.nextPath)) return undefined;
+  if (!pagination.hasMorePath && pageSize !== undefined && items.length < pageSize) return undefined;
+  return pagination.style === 'page' ? Number(current) + 1 : Number(current) + items.length;
+}
+
+/**
+ * Every item of a list action, fetching pages as they're read. Actions
+ * without a pagination block are read as a single page. A failed page
+ * throws with the executor's error code as `code`.
+ */
+export async function* paginate<T = unknown>(
+  executor: ActionExecutor,
+  request: ActionRequest,
+  options: PaginateOptions = {}
+): AsyncGenerator<T> {
+  const action = await executor.action(request.adapter, request.action);
+  if (!action) throw new Error(`${request.adapter} has no action "${request.action}"`);
+  const pagination = action.pagination;
+
+  const config = { ...request.config };
+  let pageSize = pagination?.defaultLimit;
+  if (pagination?.limitParam) {
+    const requested = options.pageSize ?? (config[pagination.limitParam] as number | undefined) ?? pagination.maxLimit;
+    pageSize = requested !== undefined && pagination.maxLimit ? Math.min(requested, pagination.maxLimit) : requested;
+    if (pageSize !== undefined) config[pagination.limitParam] = pageSize;
+  }
+  if (pagination && pagination.style !== 'cursor') {
+    config[pagination.param] ??= pagination.style === 'page' ? pagination.firstPage ?? 1 : 0;
+  }
+
+  let yielded = 0;
+  for (let page = 1; ; page++) {
+    const result = await executor.execute({ ...request, config });
+    if (!result.ok) {
+      throw Object.assign(new Error(`${request.action} page ${page}: ${result.error.message}`), { code: result.error.code, error: result.error });
+    }
+
+    const items = pagination?.itemsPath ? valueAt(result.data, pagination.itemsPath) : result.data;
+    if (!Array.isArray(items)) {
+      throw new Error(`${request.action} page ${page} has no item array${pagination?.itemsPath ? ` at ${pagination.itemsPath}` : ''}`);
+    }
+    for (const item of items) {
+      yield item as T;
+      if (options.maxItems !== undefined && ++yielded >= options.maxItems) return;
+    }
+
+    if (!pagination || (options.maxPages !== undefined && page >= options.maxPages)) return;
+    const next = nextPosition(pagination, result.data, items, config[pagination.param], pageSize);
+    // A cursor that doesn't move would fetch the same page forever
+    if (next === undefined || next === config[pagination.param]) return;
+    config[pagination.param] = next;
+  }
+}
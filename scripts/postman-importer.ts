@@ -0,0 +1,539 @@
+/**
+ * Postman Collection Importer
+ *
+ * Generates an adapter from a Postman Collection v2.1 export, for providers
+ * that publish a collection but no OpenAPI spec. Every request becomes an
+ * action:
+ *
+ * - method and endpoint from the request URL, with `:id` and `{{id}}` path
+ *   segments as path parameters
+ * - configSchema from path variables, query params, non-standard headers and
+ *   the example body (raw JSON, urlencoded or form-data)
+ * - responseSchema inferred from the saved 2xx example responses
+ * - category from the top-level folder
+ *
+ * Output goes through the same writer as the OpenAPI generator, so provider
+ * profiles and overrides.json apply. A collection describes no webhooks, so
+ * the adapter's existing triggers and webhooks block are kept.
+ *
+ * Usage:
+ *   npx tsx scripts/postman-importer.ts <slug> <name> <source> [--out <dir>] [--dry-run]
+ *
+ * <source> is a URL, file:// URL or local path to the exported collection.
+ */
+
+import { join, resolve } from 'path';
+import type {
+  ActionDefinition,
+  HttpMethod,
+  JSONSchema,
+  ParameterLocation,
+} from './types';
+import type { SecurityScheme } from './openapi-types';
+import type {
+  Description,
+  KeyValue,
+  PostmanAuth,
+  PostmanBody,
+  PostmanCollection,
+  PostmanItem,
+  PostmanItemGroup,
+  PostmanRequest,
+  PostmanResponse,
+  PostmanUrl,
+} from './postman-types';
+import {
+  extractCategory,
+  writeGeneratedAdapter,
+  type GenerateOptions,
+  type GeneratedAdapter,
+  type WrittenAdapter,
+} from './openapi-generator';
+import { DEFAULT_DESCRIPTION_LIMITS, formatDescription } from './description-formatter';
+import { pathToActionId, resolveActionIds } from './action-ids';
+import { refineAuthConfig, schemeToAuthConfig, type AuthConfig } from './auth-config';
+import { getProviderProfile } from './providers';
+import { loadDocument } from './spec-loader';
+import { readManifest } from './manifest-loader';
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Headers the executor sets itself; they never become action inputs */
+const STANDARD_HEADERS = ['accept', 'authorization', 'content-type', 'content-length', 'user-agent', 'cache-control'];
+
+const BODY_CONTENT_TYPES: Record<string, string> = {
+  raw: 'application/json',
+  urlencoded: 'application/x-www-form-urlencoded',
+  formdata: 'multipart/form-data',
+};
+
+const PLACEHOLDER = /\{\{([^{}]+)\}\}/g;
+
+type Variables = Map<string, string>;
+
+interface CollectedRequest {
+  item: PostmanItem;
+  request: PostmanRequest;
+  folders: string[];
+  auth?: PostmanAuth;
+}
+
+function isItemGroup(item: PostmanItem | PostmanItemGroup): item is PostmanItemGroup {
+  return Array.isArray((item as PostmanItemGroup).item);
+}
+
+function descriptionText(description: Description | undefined): string | undefined {
+  const text = typeof description === 'string' ? description : description?.content;
+  return text?.trim() || undefined;
+}
+
+function substitute(text: string, variables: Variables): string {
+  return text.replace(PLACEHOLDER, (match, name: string) => variables.get(name.trim()) ?? match);
+}
+
+/**
+ * Flatten the item tree, tracking folder names and the inherited auth
+ */
+function collectRequests(
+  items: Array<PostmanItem | PostmanItemGroup>,
+  folders: string[] = [],
+  auth?: PostmanAuth
+): CollectedRequest[] {
+  const requests: CollectedRequest[] = [];
+  for (const item of items) {
+    if (isItemGroup(item)) {
+      requests.push(...collectRequests(item.item, [...folders, item.name || ''], item.auth || auth));
+    } else if (item.request) {
+      const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+      requests.push({ item, request, folders, auth: request.auth || auth });
+    }
+  }
+  return requests;
+}
+
+/**
+ * Split a raw URL string into the structured form Postman also exports
+ */
+function parseRawUrl(raw: string): PostmanUrl {
+  const [withoutQuery, queryString] = raw.split('?', 2);
+  const protocol = withoutQuery.match(/^(\w+):\/\//)?.[1];
+  const [host, ...path] = withoutQuery.replace(/^\w+:\/\//, '').split('/');
+  const query = (queryString || '').split('&').filter(Boolean).map(pair => {
+    const [key, value = ''] = pair.split('=');
+    return { key: decodeURIComponent(key), value: decodeURIComponent(value) };
+  });
+  return { raw, protocol, host, path, query };
+}
+
+function toUrl(url: string | PostmanUrl | undefined): PostmanUrl {
+  if (!url) return {};
+  if (typeof url === 'string') return parseRawUrl(url);
+  // Exports without a host array keep everything in `raw`
+  return url.host || url.path ? url : { ...parseRawUrl(url.raw || ''), ...url };
+}
+
+function segments(value: string | string[] | undefined, separator: string): string[] {
+  return (Array.isArray(value) ? value : (value || '').split(separator)).filter(Boolean);
+}
+
+/**
+ * Base URL of a request, with collection variables substituted; undefined
+ * when the host still has unresolved placeholders
+ */
+function requestBaseUrl(url: PostmanUrl, variables: Variables): string | undefined {
+  const host = substitute(segments(url.host, '.').join('.'), variables);
+  if (!host || host.includes('{{')) return undefined;
+  if (/^\w+:\/\//.test(host)) return host.replace(/\/$/, '');
+  return `${url.protocol || 'https'}://${host}`;
+}
+
+/**
+ * Endpoint path with path variables as `{name}`, plus the variable names
+ */
+function requestEndpoint(url: PostmanUrl): { endpoint: string; pathParams: string[] } {
+  const pathParams: string[] = [];
+  const parts = segments(url.path, '/').map(segment => {
+    const name = segment.startsWith(':') ? segment.slice(1) : segment.match(/^\{\{([^{}]+)\}\}$/)?.[1];
+    if (!name) return segment;
+    pathParams.push(name.trim());
+    return `{${name.trim()}}`;
+  });
+  return { endpoint: '/' + parts.join('/'), pathParams };
+}
+
+/**
+ * Schema for a string value from a URL, header or form field
+ */
+function valueSchema(value: string | undefined): JSONSchema {
+  if (value === undefined || value === '' || value.includes('{{')) return { type: 'string' };
+  if (/^-?\d+$/.test(value)) return { type: 'integer' };
+  if (/^(true|false)$/.test(value)) return { type: 'boolean' };
+  return inferSchema(value);
+}
+
+/**
+ * Infer a JSON Schema from an example value
+ */
+export function inferSchema(value: unknown): JSONSchema {
+  if (value === null || value === undefined) return {};
+  if (typeof value === 'boolean') return { type: 'boolean' };
+  if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  if (typeof value === 'string') {
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return { type: 'string', format: 'date-time' };
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return { type: 'string', format: 'date' };
+    if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return { type: 'string', format: 'email' };
+    if (/^https?:\/\/\S+$/.test(value)) return { type: 'string', format: 'uri' };
+    return { type: 'string' };
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(inferSchema).reduce<JSONSchema | undefined>(
+      (merged, schema) => merged ? mergeSchemas(merged, schema) : schema,
+      undefined
+    );
+    return { type: 'array', ...(items && Object.keys(items).length > 0 ? { items } : {}) };
+  }
+
+  const properties: Record<string, JSONSchema> = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    properties[key] = inferSchema(child);
+  }
+  return { type: 'object', properties };
+}
+
+/**
+ * Combine schemas inferred from several examples of the same value
+ */
+function mergeSchemas(a: JSONSchema, b: JSONSchema): JSONSchema {
+  if (!a.type) return b;
+  if (!b.type) return a;
+
+  if (a.type !== b.type) {
+    const numeric = ['integer', 'number'];
+    if (numeric.includes(a.type as string) && numeric.includes(b.type as string)) return { type: 'number' };
+    return { type: [...new Set([a.type, b.type].flat())] };
+  }
+
+  if (a.type === 'object') {
+    const properties = { ...a.properties };
+    for (const [key, schema] of Object.entries(b.properties || {})) {
+      properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+    }
+    return { type: 'object', properties };
+  }
+  if (a.type === 'array' && (a.items || b.items)) {
+    return { type: 'array', items: a.items && b.items ? mergeSchemas(a.items, b.items) : a.items || b.items };
+  }
+  return a.format === b.format ? a : { type: a.type };
+}
+
+/**
+ * Parse a raw JSON example body; unquoted {{placeholders}} are read as strings
+ */
+function parseJsonBody(raw: string): unknown {
+  const quoted = raw.replace(/(^|[^"])(\{\{[^{}]+\}\})(?!")/g, '$1"$2"');
+  try {
+    return JSON.parse(quoted);
+  } catch {
+    return undefined;
+  }
+}
+
+function formFields(fields: KeyValue[]): Record<string, JSONSchema> {
+  const properties: Record<string, JSONSchema> = {};
+  for (const field of fields) {
+    properties[field.key] = {
+      ...(field.type === 'file' ? { type: 'string', format: 'binary' } : valueSchema(field.value)),
+      ...(descriptionText(field.description) ? { description: descriptionText(field.description) } : {}),
+    };
+  }
+  return properties;
+}
+
+/**
+ * Body properties and the content type they are sent as
+ */
+function bodyProperties(body: PostmanBody | undefined): { contentType: string; properties: Record<string, JSONSchema> } | undefined {
+  if (!body?.mode || !BODY_CONTENT_TYPES[body.mode]) return undefined;
+
+  if (body.mode === 'urlencoded' || body.mode === 'formdata') {
+    const fields = (body[body.mode] || []).filter(field => !field.disabled);
+    return fields.length > 0 ? { contentType: BODY_CONTENT_TYPES[body.mode], properties: formFields(fields) } : undefined;
+  }
+
+  const language = body.options?.raw?.language;
+  if (!body.raw?.trim() || (language && language !== 'json')) return undefined;
+
+  const example = parseJsonBody(body.raw);
+  if (!example || typeof example !== 'object' || Array.isArray(example)) return undefined;
+  return { contentType: BODY_CONTENT_TYPES.raw, properties: inferSchema(example).properties || {} };
+}
+
+/**
+ * Response schema merged from the saved 2xx examples with JSON bodies
+ */
+function responseSchema(responses: PostmanResponse[] = []): JSONSchema | undefined {
+  let merged: JSONSchema | undefined;
+  for (const response of responses) {
+    if (response.code && (response.code < 200 || response.code >= 300)) continue;
+    if (!response.body?.trim()) continue;
+
+    const example = parseJsonBody(response.body);
+    if (example === undefined) continue;
+    const schema = inferSchema(example);
+    merged = merged ? mergeSchemas(merged, schema) : schema;
+  }
+  return merged;
+}
+
+function toAction(
+  { item, request, folders }: CollectedRequest,
+  method: HttpMethod,
+  describe: (raw: string) => { description: string; summary: string }
+): ActionDefinition {
+  const url = toUrl(request.url);
+  const { endpoint, pathParams } = requestEndpoint(url);
+  const urlVariables = new Map((url.variable || []).map(variable => [variable.key, variable]));
+
+  const properties: Record<string, JSONSchema> = {};
+  const parameterLocations: Record<string, ParameterLocation> = {};
+  const describeField = (field: KeyValue | undefined) => {
+    const text = descriptionText(field?.description);
+    return text ? { description: text } : {};
+  };
+
+  for (const name of pathParams) {
+    const variable = urlVariables.get(name);
+    properties[name] = { ...valueSchema(variable?.value), ...describeField(variable) };
+    parameterLocations[name] = 'path';
+  }
+
+  // Disabled query params are how collections show optional ones, so they count too
+  for (const param of url.query || []) {
+    if (!param.key || parameterLocations[param.key]) continue;
+    properties[param.key] = { ...valueSchema(param.value), ...describeField(param) };
+    parameterLocations[param.key] = 'query';
+  }
+
+  for (const header of request.header || []) {
+    if (header.disabled || STANDARD_HEADERS.includes(header.key.toLowerCase()) || parameterLocations[header.key]) continue;
+    const constant = header.value && !header.value.includes('{{') ? { default: header.value } : {};
+    properties[header.key] = { type: 'string', ...constant, ...describeField(header) };
+    parameterLocations[header.key] = 'header';
+  }
+
+  // Body fields never replace path params on a name clash
+  const body = bodyProperties(request.body);
+  for (const [key, schema] of Object.entries(body?.properties || {})) {
+    if (parameterLocations[key] === 'path') continue;
+    properties[key] = schema;
+    parameterLocations[key] = 'body';
+  }
+
+  const response = responseSchema(item.response);
+  const { description, summary } = describe(
+    descriptionText(request.description) || descriptionText(item.description) || `${method} ${endpoint}`
+  );
+
+  return {
+    id: pathToActionId(endpoint, method.toLowerCase(), item.name),
+    name: item.name || `${method} ${endpoint}`,
+    description,
+    summary,
+    category: extractCategory(endpoint, { tags: folders[0] ? [folders[0]] : undefined }),
+    method,
+    endpoint,
+    parameterLocations,
+    ...(body ? { contentType: body.contentType } : {}),
+    configSchema: {
+      type: 'object',
+      properties,
+      ...(pathParams.length > 0 ? { required: pathParams } : {}),
+    },
+    ...(response ? { responseSchema: response } : {}),
+  };
+}
+
+function authValues(auth: PostmanAuth): Record<string, string> {
+  const values = auth[auth.type];
+  return Object.fromEntries((Array.isArray(values) ? values : []).map(entry => [entry.key, entry.value ?? '']));
+}
+
+/**
+ * Convert Postman auth to the equivalent OpenAPI security scheme
+ */
+function toSecurityScheme(auth: PostmanAuth): { scheme: SecurityScheme; scopes: string[] } | undefined {
+  const values = authValues(auth);
+  switch (auth.type) {
+    case 'basic':
+      return { scheme: { type: 'http', scheme: 'basic' }, scopes: [] };
+    case 'bearer':
+      return { scheme: { type: 'http', scheme: 'bearer' }, scopes: [] };
+    case 'apikey':
+      return { scheme: { type: 'apiKey', name: values.key || 'api_key', in: values.in === 'query' ? 'query' : 'header' }, scopes: [] };
+    case 'oauth2': {
+      const scopes = (values.scope || '').split(/[\s,]+/).filter(Boolean);
+      const flow = {
+        ...(values.authUrl ? { authorizationUrl: values.authUrl } : {}),
+        ...(values.accessTokenUrl ? { tokenUrl: values.accessTokenUrl } : {}),
+        scopes: Object.fromEntries(scopes.map(scope => [scope, ''])),
+      };
+      const flows = values.grant_type === 'client_credentials' ? { clientCredentials: flow } : { authorizationCode: flow };
+      return { scheme: { type: 'oauth2', flows }, scopes };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Auth config from the collection auth, else the auth most requests use
+ */
+function deriveAuthConfig(collection: PostmanCollection, requests: CollectedRequest[]): AuthConfig | undefined {
+  const counts = new Map<string, { auth: PostmanAuth; count: number }>();
+  for (const { auth } of requests) {
+    if (!auth || auth.type === 'noauth') continue;
+    const entry = counts.get(auth.type) || { auth, count: 0 };
+    counts.set(auth.type, { ...entry, count: entry.count + 1 });
+  }
+
+  const auth = collection.auth || [...counts.values()].sort((a, b) => b.count - a.count)[0]?.auth;
+  const converted = auth && toSecurityScheme(auth);
+  return converted && schemeToAuthConfig(auth.type, converted.scheme, converted.scopes);
+}
+
+function collectionVersion(version: PostmanCollection['info']['version']): string {
+  if (!version) return '1.0.0';
+  return typeof version === 'string' ? version : `${version.major}.${version.minor}.${version.patch}`;
+}
+
+/**
+ * Load and check a Postman collection
+ */
+export async function loadPostmanCollection(source: string, options: GenerateOptions = {}): Promise<PostmanCollection> {
+  const collection = await loadDocument(source, options.specCache) as PostmanCollection;
+  const schema = collection?.info?.schema || '';
+  if (!Array.isArray(collection?.item) || !schema.includes('/v2.1')) {
+    throw new Error(`${source} is not a Postman v2.1 collection${schema ? ` (schema ${schema})` : ''}; export it as Collection v2.1`);
+  }
+  return collection;
+}
+
+/**
+ * Generate a complete adapter from a Postman collection
+ */
+export async function generateAdapterFromPostman(
+  slug: string,
+  name: string,
+  source: string,
+  options: GenerateOptions = {}
+): Promise<GeneratedAdapter> {
+  console.log(`Loading Postman collection from ${source}...`);
+  const collection = await loadPostmanCollection(source, options);
+  const variables: Variables = new Map(
+    (collection.variable || []).map(variable => [variable.key, variable.value ?? ''])
+  );
+
+  const limits = { ...DEFAULT_DESCRIPTION_LIMITS, ...options.descriptionLimits };
+  const baseProfile = getProviderProfile(slug);
+  const describe = (raw: string) => formatDescription(raw, baseProfile.provider.documentation, limits);
+
+  const requests = collectRequests(collection.item, [], collection.auth);
+  const actions: ActionDefinition[] = [];
+  const baseUrls = new Map<string, number>();
+  const skipped: string[] = [];
+
+  for (const collected of requests) {
+    const method = (collected.request.method || 'GET').toUpperCase() as HttpMethod;
+    if (!METHODS.includes(method)) {
+      skipped.push(`${method} ${collected.item.name || ''}`.trim());
+      continue;
+    }
+
+    const baseUrl = requestBaseUrl(toUrl(collected.request.url), variables);
+    if (baseUrl) baseUrls.set(baseUrl, (baseUrls.get(baseUrl) || 0) + 1);
+    actions.push(toAction(collected, method, describe));
+  }
+
+  console.log(`Generated ${actions.length} actions from ${requests.length} requests`);
+  if (skipped.length > 0) {
+    console.warn(`  ⚠ Skipped ${skipped.length} requests with unsupported methods: ${skipped.join(', ')}`);
+  }
+
+  // Keep what the collection can't describe: triggers and webhook signing
+  const registryDir = options.overridesDir ?? options.outDir;
+  const existing = registryDir ? readManifest(join(registryDir, slug)) : undefined;
+  const triggers = existing?.triggers || [];
+  const profile = baseProfile.webhooks || !existing?.webhooks ? baseProfile : { ...baseProfile, webhooks: existing.webhooks };
+
+  const resolvedActions = resolveActionIds(actions);
+  const description = descriptionText(collection.info.description);
+
+  return {
+    slug,
+    name,
+    version: collectionVersion(collection.info.version),
+    description: description ? describe(description).summary : `${name} integration`,
+    baseUrl: [...baseUrls.entries()].sort((a, b) => b[1] - a[1])[0]?.[0],
+    actions: resolvedActions,
+    triggers,
+    totalEndpoints: resolvedActions.length,
+    totalWebhooks: triggers.length,
+    categories: [...new Set(resolvedActions.map(action => action.category))].filter(Boolean),
+    profile,
+    authentication: refineAuthConfig(slug, deriveAuthConfig(collection, requests), profile, 'collection declares no auth'),
+    generatedFrom: 'postman',
+  };
+}
+
+/**
+ * Import a Postman collection and write it to registry format
+ */
+export async function importPostmanAndWriteAdapter(
+  slug: string,
+  name: string,
+  source: string,
+  options: GenerateOptions = {}
+): Promise<WrittenAdapter> {
+  const adapter = await generateAdapterFromPostman(slug, name, source, options);
+  return writeGeneratedAdapter(adapter, options);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let outDir = 'adapters';
+  let dryRun = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--out') outDir = args[++i];
+    else positional.push(args[i]);
+  }
+
+  const [slug, name, source] = positional;
+  if (!slug || !name || !source || !outDir) {
+    console.error('Usage: npx tsx scripts/postman-importer.ts <slug> <name> <source> [--out <dir>] [--dry-run]');
+    process.exit(1);
+  }
+
+  outDir = resolve(outDir);
+  const result = await importPostmanAndWriteAdapter(slug, name, source, {
+    outDir: dryRun ? undefined : outDir,
+    overridesDir: resolve('adapters'),
+  });
+
+  console.log(`\n${slug}: ${result.stats.actions} actions, ${result.stats.triggers} triggers`);
+  console.log(`Categories: ${result.stats.categories.join(', ')}`);
+
+  if (dryRun) {
+    console.log('\nDry run - no files written');
+    return;
+  }
+  console.log(`\nFiles written to: ${join(outDir, slug)}`);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Postman Collection Types
+ *
+ * The subset of the Postman Collection v2.1 format used by the Postman importer.
+ * See https://schema.postman.com/collection/json/v2.1.0/draft-07/collection.json
+ */
+
+export type Description = string | { content?: string; type?: string };
+
+/**
+ * A `key`/`value` pair: variables, query params, headers and form fields
+ */
+export interface KeyValue {
+  key: string;
+  value?: string;
+  description?: Description;
+  disabled?: boolean;
+  type?: string;
+}
+
+export interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  path?: string | string[];
+  query?: KeyValue[];
+  variable?: KeyValue[];
+}
+
+export interface PostmanBody {
+  mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+  raw?: string;
+  urlencoded?: KeyValue[];
+  formdata?: KeyValue[];
+  options?: { raw?: { language?: string } };
+}
+
+/**
+ * Auth settings; each type keeps its parameters as a key/value list under its own name
+ */
+export interface PostmanAuth {
+  type: 'basic' | 'bearer' | 'apikey' | 'oauth2' | 'noauth' | string;
+  [type: string]: KeyValue[] | string | undefined;
+}
+
+export interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: KeyValue[];
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+  description?: Description;
+}
+
+/**
+ * A saved example response
+ */
+export interface PostmanResponse {
+  name?: string;
+  code?: number;
+  status?: string;
+  header?: KeyValue[];
+  body?: string;
+  _postman_previewlanguage?: string;
+}
+
+export interface PostmanItem {
+  name?: string;
+  description?: Description;
+  request?: PostmanRequest | string;
+  response?: PostmanResponse[];
+}
+
+/**
+ * A folder of requests and nested folders
+ */
+export interface PostmanItemGroup {
+  name?: string;
+  description?: Description;
+  item: Array<PostmanItem | PostmanItemGroup>;
+  auth?: PostmanAuth;
+}
+
+export interface PostmanCollection {
+  info: {
+    name: string;
+    schema: string;
+    description?: Description;
+    version?: string | { major: number; minor: number; patch: number };
+  };
+  item: Array<PostmanItem | PostmanItemGroup>;
+  variable?: KeyValue[];
+  auth?: PostmanAuth;
+}
@@ -0,0 +1,31 @@
+import type { ProviderProfile } from './types';
+
+// No OpenAPI spec; imported from Aircall's Postman collection
+export const aircall: ProviderProfile = {
+  type: 'telephony',
+  provider: {
+    website: 'https://aircall.io',
+    documentation: 'https://developer.aircall.io/api-references',
+  },
+  authentication: {
+    type: 'basic',
+    fields: [
+      { name: 'api_id', label: 'API ID', type: 'text', required: true, placeholder: 'Your Aircall API ID', helpText: 'Found in Aircall Dashboard → Integrations → API Keys' },
+      { name: 'api_token', label: 'API Token', type: 'password', required: true, placeholder: 'Your Aircall API Token', helpText: 'Found in Aircall Dashboard → Integrations → API Keys' },
+    ],
+    testEndpoint: '/company',
+  },
+  // Aircall sends the reset time instead of Retry-After; waits of up to a minute are worth it
+  rateLimit: {
+    requestsPerMinute: 60,
+    requestsPerHour: 3600,
+    resetHeader: 'x-aircallapi-reset',
+    retry: { maxDelayMs: 60000 },
+  },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'x-aircall-signature',
+    signatureAlgorithm: 'hmac-sha256',
+    events: { event: '{event}', occurredAt: 'timestamp', idempotencyKey: '{event}:{data.id}:{timestamp}' },
+  },
+};
@@ -0,0 +1,39 @@
+import type { ProviderProfile } from './types';
+
+// OAuth URLs point at the developer sandbox; production uses account.docusign.com
+export const docusign: ProviderProfile = {
+  type: 'esignature',
+  provider: {
+    website: 'https://www.docusign.com',
+    documentation: 'https://developers.docusign.com/docs/esign-rest-api/',
+  },
+  authentication: {
+    type: 'oauth2',
+    fields: [
+      { name: 'account_id', label: 'Account ID', type: 'text', required: true, placeholder: 'xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx', helpText: 'Your DocuSign Account ID (GUID). Find in DocuSign Admin → API and Keys.' },
+    ],
+    oauth_app_fields: [
+      { name: 'client_id', label: 'Integration Key (Client ID)', type: 'text', required: true, helpText: 'From DocuSign Apps and Keys settings' },
+      { name: 'client_secret', label: 'Secret Key', type: 'password', required: true, helpText: 'Generated in DocuSign app settings' },
+    ],
+    oauth2: {
+      authUrl: 'https://account-d.docusign.com/oauth/auth',
+      tokenUrl: 'https://account-d.docusign.com/oauth/token',
+      scopes: ['signature', 'impersonation'],
+      pkce: false,
+    },
+    testEndpoint: '/accounts/{account_id}',
+  },
+  rateLimit: { requestsPerMinute: 1000 },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'x-docusign-signature-1',
+    signatureAlgorithm: 'hmac-sha256',
+    signatureEncoding: 'base64',
+    events: {
+      event: '{event}',
+      occurredAt: 'generatedDateTime',
+      idempotencyKey: '{event}:{data.envelopeId}:{generatedDateTime}',
+    },
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * Provider Profiles
+ *
+ * Per-provider facts the OpenAPI spec can't express: registry category,
+ * links, curated auth fields, rate limits and webhook signing. Adding a
+ * provider means adding one module here; everything else comes from its spec.
+ */
+
+import type { OpenAPISpec } from '../openapi-types';
+import type { ProviderProfile } from './types';
+import { aircall } from './aircall';
+import { docusign } from './docusign';
+import { sendgrid } from './sendgrid';
+import { stripe } from './stripe';
+import { sumsub } from './sumsub';
+import { twilio } from './twilio';
+import { xero } from './xero';
+
+export type { ProviderProfile } from './types';
+
+export const PROVIDER_PROFILES: Record<string, ProviderProfile> = {
+  aircall,
+  docusign,
+  sendgrid,
+  stripe,
+  sumsub,
+  twilio,
+  xero,
+};
+
+/**
+ * The provider's profile, or a minimal one built from the spec's info block
+ */
+export function getProviderProfile(slug: string, spec?: OpenAPISpec): ProviderProfile {
+  return PROVIDER_PROFILES[slug] || {
+    type: 'custom',
+    provider: {
+      website: spec?.info.contact?.url || '',
+      documentation: spec?.externalDocs?.url || spec?.info.contact?.url || '',
+    },
+  };
+}
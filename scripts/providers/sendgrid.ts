@@ -0,0 +1,31 @@
+import type { ProviderProfile } from './types';
+
+// The spec's bearer token is an API key; the default sender fields are ours
+export const sendgrid: ProviderProfile = {
+  type: 'email',
+  provider: {
+    name: 'Twilio SendGrid',
+    website: 'https://sendgrid.com',
+    documentation: 'https://docs.sendgrid.com/api-reference/how-to-use-the-sendgrid-v3-api',
+  },
+  authentication: {
+    type: 'api_key',
+    fields: [
+      { name: 'api_key', label: 'API Key', type: 'password', required: true, placeholder: 'SG.xxxxxxxxxxxxxxxxxxxxxxxx', helpText: 'SendGrid API key with Mail Send and other required permissions.' },
+      { name: 'default_from', label: 'Default From Email', type: 'text', required: false, placeholder: 'noreply@yourdomain.com', helpText: 'Default sender email address.' },
+      { name: 'default_from_name', label: 'Default From Name', type: 'text', required: false, placeholder: 'Your Company', helpText: 'Default sender display name.' },
+    ],
+    apiKey: { in: 'header', name: 'Authorization', prefix: 'Bearer ' },
+    testEndpoint: '/v3/user/profile',
+  },
+  rateLimit: { requestsPerMinute: 600 },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'x-twilio-email-event-webhook-signature',
+    signatureAlgorithm: 'ecdsa',
+    signatureEncoding: 'base64',
+    timestampHeader: 'x-twilio-email-event-webhook-timestamp',
+    signedContent: '{timestamp}{body}',
+    events: { batchPath: '$', event: '{event}', occurredAt: 'timestamp', idempotencyKey: '{sg_event_id}' },
+  },
+};
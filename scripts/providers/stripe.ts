@@ -0,0 +1,202 @@
+import type { ProviderProfile } from './types';
+
+// Stripe accepts the secret key as basic auth or bearer; users only ever paste keys
+export const stripe: ProviderProfile = {
+  type: 'payment',
+  provider: {
+    website: 'https://stripe.com',
+    documentation: 'https://stripe.com/docs/api',
+    logo: 'https://stripe.com/img/v3/home/twitter.png',
+  },
+  authentication: {
+    type: 'api_key',
+    fields: [
+      { name: 'secret_key', label: 'Secret Key', type: 'password', required: true, placeholder: 'sk_live_...' },
+      { name: 'publishable_key', label: 'Publishable Key', type: 'text', required: false, placeholder: 'pk_live_...' },
+      { name: 'webhook_secret', label: 'Webhook Signing Secret', type: 'password', required: false, placeholder: 'whsec_...' },
+    ],
+    apiKey: { in: 'header', name: 'Authorization', prefix: 'Bearer ', field: 'secret_key' },
+    testEndpoint: 'https://api.stripe.com/v1/balance',
+  },
+  rateLimit: {
+    requestsPerSecond: 100,
+    requestsPerMinute: 2000,
+    endpoints: { 'GET /v1/*/search': { requestsPerSecond: 20 } },
+  },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'stripe-signature',
+    signatureAlgorithm: 'hmac-sha256',
+    signatureFormat: { type: 'pairs', signatureKey: 'v1', timestampKey: 't' },
+    signedContent: '{timestamp}.{body}',
+    events: { event: '{type}', occurredAt: 'created', idempotencyKey: '{id}' },
+  },
+  // Hundreds of resources; agents still need the core payment, billing and customer ones
+  mcp: { maxTools: 30, maxTokens: 16000 },
+};
+
+/**
+ * Stripe webhook events the adapter exposes. Events come from the spec's
+ * x-stripeEvent schemas; this list only filters them.
+ */
+export const STRIPE_WEBHOOK_EVENTS = [
+  // Account events
+  'account.updated', 'account.application.authorized', 'account.application.deauthorized',
+  'account.external_account.created', 'account.external_account.deleted', 'account.external_account.updated',
+
+  // Application fee events
+  'application_fee.created', 'application_fee.refunded', 'application_fee.refund.updated',
+
+  // Balance events
+  'balance.available',
+
+  // Billing portal events
+  'billing_portal.configuration.created', 'billing_portal.configuration.updated',
+  'billing_portal.session.created',
+
+  // Charge events
+  'charge.captured', 'charge.expired', 'charge.failed', 'charge.pending', 'charge.refunded',
+  'charge.succeeded', 'charge.updated',
+  'charge.dispute.closed', 'charge.dispute.created', 'charge.dispute.funds_reinstated',
+  'charge.dispute.funds_withdrawn', 'charge.dispute.updated',
+  'charge.refund.updated',
+
+  // Checkout events
+  'checkout.session.async_payment_failed', 'checkout.session.async_payment_succeeded',
+  'checkout.session.completed', 'checkout.session.expired',
+
+  // Coupon events
+  'coupon.created', 'coupon.deleted', 'coupon.updated',
+
+  // Credit note events
+  'credit_note.created', 'credit_note.updated', 'credit_note.voided',
+
+  // Customer events
+  'customer.created', 'customer.deleted', 'customer.updated',
+  'customer.discount.created', 'customer.discount.deleted', 'customer.discount.updated',
+  'customer.source.created', 'customer.source.deleted', 'customer.source.expiring', 'customer.source.updated',
+  'customer.subscription.created', 'customer.subscription.deleted', 'customer.subscription.paused',
+  'customer.subscription.pending_update_applied', 'customer.subscription.pending_update_expired',
+  'customer.subscription.resumed', 'customer.subscription.trial_will_end', 'customer.subscription.updated',
+  'customer.tax_id.created', 'customer.tax_id.deleted', 'customer.tax_id.updated',
+
+  // File events
+  'file.created',
+
+  // Invoice events
+  'invoice.created', 'invoice.deleted', 'invoice.finalization_failed', 'invoice.finalized',
+  'invoice.marked_uncollectible', 'invoice.paid', 'invoice.payment_action_required',
+  'invoice.payment_failed', 'invoice.payment_succeeded', 'invoice.sent',
+  'invoice.upcoming', 'invoice.updated', 'invoice.voided',
+  'invoiceitem.created', 'invoiceitem.deleted',
+
+  // Issuing events
+  'issuing_authorization.created', 'issuing_authorization.updated',
+  'issuing_card.created', 'issuing_card.updated',
+  'issuing_cardholder.created', 'issuing_cardholder.updated',
+  'issuing_dispute.closed', 'issuing_dispute.created', 'issuing_dispute.funds_reinstated',
+  'issuing_dispute.submitted', 'issuing_dispute.updated',
+  'issuing_transaction.created', 'issuing_transaction.updated',
+
+  // Mandate events
+  'mandate.updated',
+
+  // Payment intent events
+  'payment_intent.amount_capturable_updated', 'payment_intent.canceled', 'payment_intent.created',
+  'payment_intent.partially_funded', 'payment_intent.payment_failed', 'payment_intent.processing',
+  'payment_intent.requires_action', 'payment_intent.succeeded',
+
+  // Payment link events
+  'payment_link.created', 'payment_link.updated',
+
+  // Payment method events
+  'payment_method.attached', 'payment_method.automatically_updated', 'payment_method.detached',
+  'payment_method.updated',
+
+  // Payout events
+  'payout.canceled', 'payout.created', 'payout.failed', 'payout.paid',
+  'payout.reconciliation_completed', 'payout.updated',
+
+  // Person events
+  'person.created', 'person.deleted', 'person.updated',
+
+  // Plan events
+  'plan.created', 'plan.deleted', 'plan.updated',
+
+  // Price events
+  'price.created', 'price.deleted', 'price.updated',
+
+  // Product events
+  'product.created', 'product.deleted', 'product.updated',
+
+  // Promotion code events
+  'promotion_code.created', 'promotion_code.updated',
+
+  // Quote events
+  'quote.accepted', 'quote.canceled', 'quote.created', 'quote.finalized',
+
+  // Radar events
+  'radar.early_fraud_warning.created', 'radar.early_fraud_warning.updated',
+
+  // Refund events
+  'refund.created', 'refund.updated',
+
+  // Reporting events
+  'reporting.report_run.failed', 'reporting.report_run.succeeded',
+  'reporting.report_type.updated',
+
+  // Review events
+  'review.closed', 'review.opened',
+
+  // Setup intent events
+  'setup_intent.canceled', 'setup_intent.created', 'setup_intent.requires_action',
+  'setup_intent.setup_failed', 'setup_intent.succeeded',
+
+  // Sigma events
+  'sigma.scheduled_query_run.created',
+
+  // Source events
+  'source.canceled', 'source.chargeable', 'source.failed',
+  'source.mandate_notification', 'source.refund_attributes_required',
+  'source.transaction.created', 'source.transaction.updated',
+
+  // Subscription schedule events
+  'subscription_schedule.aborted', 'subscription_schedule.canceled', 'subscription_schedule.completed',
+  'subscription_schedule.created', 'subscription_schedule.expiring', 'subscription_schedule.released',
+  'subscription_schedule.updated',
+
+  // Tax rate events
+  'tax_rate.created', 'tax_rate.updated',
+
+  // Terminal events
+  'terminal.reader.action_failed', 'terminal.reader.action_succeeded',
+
+  // Test helpers events
+  'test_helpers.test_clock.advancing', 'test_helpers.test_clock.created',
+  'test_helpers.test_clock.deleted', 'test_helpers.test_clock.internal_failure',
+  'test_helpers.test_clock.ready',
+
+  // Topup events
+  'topup.canceled', 'topup.created', 'topup.failed', 'topup.reversed', 'topup.succeeded',
+
+  // Transfer events
+  'transfer.created', 'transfer.reversed', 'transfer.updated',
+
+  // Treasury events (if using Stripe Treasury)
+  'treasury.credit_reversal.created', 'treasury.credit_reversal.posted',
+  'treasury.debit_reversal.completed', 'treasury.debit_reversal.created',
+  'treasury.debit_reversal.initial_credit_granted',
+  'treasury.financial_account.closed', 'treasury.financial_account.created',
+  'treasury.financial_account.features_status_updated',
+  'treasury.inbound_transfer.canceled', 'treasury.inbound_transfer.created',
+  'treasury.inbound_transfer.failed', 'treasury.inbound_transfer.succeeded',
+  'treasury.outbound_payment.canceled', 'treasury.outbound_payment.created',
+  'treasury.outbound_payment.expected_arrival_date_updated', 'treasury.outbound_payment.failed',
+  'treasury.outbound_payment.posted', 'treasury.outbound_payment.returned',
+  'treasury.outbound_transfer.canceled', 'treasury.outbound_transfer.created',
+  'treasury.outbound_transfer.expected_arrival_date_updated', 'treasury.outbound_transfer.failed',
+  'treasury.outbound_transfer.posted', 'treasury.outbound_transfer.returned',
+  'treasury.received_credit.created', 'treasury.received_credit.failed',
+  'treasury.received_credit.succeeded',
+  'treasury.received_debit.created',
+];
@@ -0,0 +1,34 @@
+import type { ProviderProfile } from './types';
+
+// Requests are signed with the secret key (X-App-Access-Sig), which OpenAPI can't describe;
+// the app token goes in X-App-Token
+export const sumsub: ProviderProfile = {
+  type: 'kyc',
+  provider: {
+    name: 'SumSub',
+    website: 'https://sumsub.com',
+    documentation: 'https://docs.sumsub.com',
+  },
+  authentication: {
+    type: 'api_key',
+    fields: [
+      { name: 'app_token', label: 'App Token', type: 'text', required: true, placeholder: 'sbx:xxxxxxxx or prd:xxxxxxxx', helpText: 'Your SumSub App Token. Find in Dashboard → App Tokens.' },
+      { name: 'secret_key', label: 'Secret Key', type: 'password', required: true, helpText: 'Your SumSub Secret Key for HMAC signing.' },
+    ],
+    headers: { 'X-App-Token': '{app_token}' },
+    signing: {
+      field: 'secret_key',
+      signatureHeader: 'X-App-Access-Sig',
+      timestampHeader: 'X-App-Access-Ts',
+      signedContent: '{timestamp}{method}{path}{body}',
+    },
+    testEndpoint: '/resources/accessTokens/-/applicants',
+  },
+  rateLimit: { requestsPerMinute: 100 },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'x-payload-digest',
+    signatureAlgorithm: 'hmac-sha256',
+    events: { event: '{type}', occurredAt: 'createdAtMs', idempotencyKey: '{correlationId}:{type}' },
+  },
+};
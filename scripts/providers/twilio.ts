@@ -0,0 +1,53 @@
+import type { ProviderProfile } from './types';
+
+// The spec declares HTTP basic auth; Twilio calls the username and password Account SID and Auth Token
+export const twilio: ProviderProfile = {
+  type: 'sms',
+  provider: {
+    website: 'https://www.twilio.com',
+    documentation: 'https://www.twilio.com/docs/usage/api',
+  },
+  authentication: {
+    type: 'basic',
+    fields: [
+      { name: 'account_sid', label: 'Account SID', type: 'text', required: true, placeholder: 'ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx', helpText: 'Your Twilio Account SID. Find in Console Dashboard.' },
+      { name: 'auth_token', label: 'Auth Token', type: 'password', required: true, placeholder: 'xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx', helpText: 'Your Twilio Auth Token. Keep this secret!' },
+      { name: 'default_from', label: 'Default From Number', type: 'text', required: false, placeholder: '+1234567890', helpText: 'Default phone number or WhatsApp sender to use.' },
+    ],
+    testEndpoint: '/Account.json',
+  },
+  rateLimit: { requestsPerMinute: 100 },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'x-twilio-signature',
+    signatureAlgorithm: 'hmac-sha1',
+    signatureEncoding: 'base64',
+    signedContent: '{url}{params}',
+    // Status callbacks are form posts; the kind of callback shows in which status field is set
+    events: {
+      bodyFormat: 'form',
+      event: [
+        'conference.{StatusCallbackEvent}',
+        'transcription.{TranscriptionStatus}',
+        'recording.{RecordingStatus}',
+        'message.{MessageStatus}',
+        'message.{SmsStatus}',
+        'call.{CallStatus}',
+      ],
+      eventMap: {
+        'conference.conference-start': 'conference.start',
+        'conference.conference-end': 'conference.end',
+        'call.in-progress': 'call.answered',
+      },
+      occurredAt: 'Timestamp',
+      idempotencyKey: [
+        '{ConferenceSid}:{StatusCallbackEvent}:{SequenceNumber}',
+        '{TranscriptionSid}:{TranscriptionStatus}',
+        '{RecordingSid}:{RecordingStatus}',
+        '{MessageSid}:{MessageStatus}',
+        '{SmsSid}:{SmsStatus}',
+        '{CallSid}:{CallStatus}:{SequenceNumber}',
+      ],
+    },
+  },
+};
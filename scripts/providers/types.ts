@@ -0,0 +1,30 @@
+/**
+ * Provider Profile Types
+ */
+
+import type { AuthConfig } from '../auth-config';
+import type { MCPToolBudget } from '../mcp-tools';
+import type { RateLimitPolicy } from '../rate-limit';
+import type { WebhookConfig } from '../types';
+
+/**
+ * Provider facts an OpenAPI spec can't express. Each provider has one
+ * profile module in this directory, registered in index.ts.
+ */
+export interface ProviderProfile {
+  /** Registry category, one of the root manifest's categories */
+  type: string;
+  provider: {
+    /** Display name when it differs from the adapter name */
+    name?: string;
+    website: string;
+    documentation: string;
+    logo?: string;
+  };
+  /** Merge patch over the auth config derived from securitySchemes; arrays replace */
+  authentication?: Partial<AuthConfig>;
+  rateLimit?: RateLimitPolicy;
+  webhooks?: WebhookConfig;
+  /** MCP tool and token budget over DEFAULT_MCP_BUDGET */
+  mcp?: Partial<MCPToolBudget>;
+}
@@ -0,0 +1,42 @@
+import type { ProviderProfile } from './types';
+
+// Xero's spec lists every scope; the adapter only requests the ones its actions need
+export const xero: ProviderProfile = {
+  type: 'crm',
+  provider: {
+    website: 'https://www.xero.com',
+    documentation: 'https://developer.xero.com/documentation',
+  },
+  authentication: {
+    type: 'oauth2',
+    fields: [
+      { name: 'tenant_id', label: 'Tenant ID', type: 'text', required: true, placeholder: 'xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx', helpText: 'Your Xero Tenant ID (organisation). Obtained after OAuth authorization.' },
+    ],
+    oauth_app_fields: [
+      { name: 'client_id', label: 'Client ID', type: 'text', required: true, helpText: 'From Xero Developer Portal app settings' },
+      { name: 'client_secret', label: 'Client Secret', type: 'password', required: true, helpText: 'Generated in Xero Developer Portal' },
+    ],
+    oauth2: {
+      authUrl: 'https://login.xero.com/identity/connect/authorize',
+      tokenUrl: 'https://identity.xero.com/connect/token',
+      scopes: ['openid', 'profile', 'email', 'offline_access', 'accounting.transactions', 'accounting.contacts', 'accounting.settings'],
+      pkce: true,
+    },
+    // Every Accounting API call names the organisation it acts on
+    headers: { 'xero-tenant-id': '{tenant_id}' },
+    testEndpoint: '/api.xro/2.0/Organisation',
+  },
+  rateLimit: { requestsPerMinute: 60, requestsPerDay: 5000 },
+  webhooks: {
+    supported: true,
+    signatureHeader: 'x-xero-signature',
+    signatureAlgorithm: 'hmac-sha256',
+    signatureEncoding: 'base64',
+    events: {
+      batchPath: 'events',
+      event: '{eventCategory}.{eventType}',
+      occurredAt: 'eventDateUtc',
+      idempotencyKey: '{resourceId}:{eventCategory}.{eventType}:{eventDateUtc}',
+    },
+  },
+};
@@ -0,0 +1,228 @@
+/**
+ * Rate Limits
+ *
+ * The `rateLimit` policy in adapter.json and the client side that enforces
+ * it: a token-bucket limiter that spaces requests out under the declared
+ * limits, and a retry loop that backs off on retryable failures.
+ *
+ * - Each `requestsPer*` limit is a bucket refilled at that rate. The finest
+ *   one holds `burst` tokens (default: its own limit); coarser ones hold their
+ *   whole limit, so they only bite on sustained traffic
+ * - `endpoints` add buckets for the actions they match, on top of the
+ *   adapter-wide ones
+ * - 429s are retried for every method; other retryable statuses and network
+ *   errors only for idempotent methods, since the provider may have acted on
+ *   the first request
+ * - `Retry-After` (or the policy's `resetHeader`) sets the wait, and a 429
+ *   pauses every request to the adapter, not just the one that got it
+ */
+
+import type { ActionError, ActionResult } from './action-executor';
+
+export interface RateLimitWindows {
+  requestsPerSecond?: number;
+  requestsPerMinute?: number;
+  requestsPerHour?: number;
+  requestsPerDay?: number;
+  /** Requests that may go out at once before the finest limit spaces them */
+  burst?: number;
+}
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Statuses worth retrying (default: 429, 502, 503, 504) */
+  retryOn?: number[];
+  /** First backoff, doubled on each retry with jitter (default: 1000) */
+  initialDelayMs?: number;
+  /** Longest wait; a Retry-After beyond it ends the retries (default: 30000) */
+  maxDelayMs?: number;
+}
+
+export interface RateLimitPolicy extends RateLimitWindows {
+  retry?: RetryPolicy;
+  /** Header with the Unix time the limit resets, for providers that send it instead of Retry-After */
+  resetHeader?: string;
+  /**
+   * Extra limits for some endpoints, keyed by "METHOD /path" or "/path" as the
+   * action's endpoint is written; `*` matches one path segment
+   */
+  endpoints?: Record<string, RateLimitWindows>;
+}
+
+/**
+ * The method and endpoint of the action a request runs
+ */
+export interface RateLimitedCall {
+  method?: string;
+  endpoint?: string;
+}
+
+export interface RateLimiter {
+  /** Wait until the call may be sent, then take a token from each bucket it counts against */
+  acquire(call?: RateLimitedCall): Promise<void>;
+  /**
+   * Take the call's tokens if they are all there now, without waiting or
+   * queueing; returns 0 when taken, else the milliseconds until they will be.
+   * For the provider side, e.g. the mock provider answering 429
+   */
+  tryAcquire(call?: RateLimitedCall): number;
+  /** Hold every call back for this many seconds, e.g. after a 429 */
+  pause(seconds: number): void;
+}
+
+export interface RateLimitClock {
+  /** Milliseconds (default: Date.now) */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  retryOn: [429, 502, 503, 504],
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const WINDOWS: Array<[keyof RateLimitWindows, number]> = [
+  ['requestsPerSecond', 1000],
+  ['requestsPerMinute', 60 * 1000],
+  ['requestsPerHour', 60 * 60 * 1000],
+  ['requestsPerDay', 24 * 60 * 60 * 1000],
+];
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const defaultSleep = (ms: number) => new Promise<void>(done => setTimeout(done, ms));
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  /** Tokens per millisecond */
+  rate: number;
+  updatedAt: number;
+}
+
+function createBuckets(windows: RateLimitWindows, now: number): Bucket[] {
+  const declared = WINDOWS.filter(([name]) => typeof windows[name] === 'number' && windows[name]! > 0);
+  return declared.map(([name, length], index) => {
+    const limit = windows[name]!;
+    const capacity = index === 0 && windows.burst ? Math.min(windows.burst, limit) : limit;
+    return { capacity, tokens: capacity, rate: limit / length, updatedAt: now };
+  });
+}
+
+function refill(bucket: Bucket, now: number): void {
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.rate);
+  bucket.updatedAt = now;
+}
+
+/**
+ * Whether an endpoints key ("METHOD /path" or "/path", `*` for a segment)
+ * covers a call
+ */
+function matchesEndpoint(key: string, call: RateLimitedCall): boolean {
+  const [first, ...rest] = key.trim().split(/\s+/);
+  const [method, path] = rest.length > 0 ? [first.toUpperCase(), rest.join(' ')] : [undefined, first];
+  if (method && method !== call.method?.toUpperCase()) return false;
+  if (!call.endpoint) return false;
+
+  const pattern = path.split('/').map(segment => segment === '*' ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('/');
+  return new RegExp(`^${pattern}$`).test(call.endpoint);
+}
+
+/**
+ * A token-bucket limiter for one adapter's policy
+ */
+export function createRateLimiter(policy: RateLimitPolicy = {}, clock: RateLimitClock = {}): RateLimiter {
+  const now = clock.now || Date.now;
+  const sleep = clock.sleep || defaultSleep;
+  const shared = createBuckets(policy, now());
+  const endpoints = Object.entries(policy.endpoints || {}).map(([key, windows]) => ({ key, buckets: createBuckets(windows, now()) }));
+  let pausedUntil = 0;
+
+  // Calls queue up so tokens go out in arrival order
+  let queue: Promise<void> = Promise.resolve();
+
+  const bucketsFor = (call: RateLimitedCall) =>
+    [...shared, ...endpoints.filter(entry => matchesEndpoint(entry.key, call)).flatMap(entry => entry.buckets)];
+
+  function tryTake(buckets: Bucket[]): number {
+    const time = now();
+    if (pausedUntil > time) return pausedUntil - time;
+    buckets.forEach(bucket => refill(bucket, time));
+    const waits = buckets.map(bucket => bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) / bucket.rate));
+    const wait = Math.max(0, ...waits);
+    if (wait === 0) buckets.forEach(bucket => bucket.tokens -= 1);
+    return wait;
+  }
+
+  async function take(buckets: Bucket[]): Promise<void> {
+    for (let wait = tryTake(buckets); wait > 0; wait = tryTake(buckets)) {
+      await sleep(wait);
+    }
+  }
+
+  return {
+    acquire(call = {}) {
+      const buckets = bucketsFor(call);
+      const turn = queue.then(() => take(buckets));
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+    tryAcquire(call = {}) {
+      return tryTake(bucketsFor(call));
+    },
+    pause(seconds) {
+      pausedUntil = Math.max(pausedUntil, now() + seconds * 1000);
+    },
+  };
+}
+
+/**
+ * Milliseconds to wait before retrying a failed call, or undefined when it
+ * shouldn't be retried
+ */
+export function retryDelay(error: ActionError, method: string, attempt: number, policy: RetryPolicy = {}): number | undefined {
+  const retry = { ...DEFAULT_RETRY_POLICY, ...policy };
+  if (attempt >= retry.maxRetries) return undefined;
+
+  const retryable = error.status === undefined ? error.retryable : retry.retryOn.includes(error.status);
+  if (!retryable) return undefined;
+  // A rate-limited request wasn't acted on; after anything else it may have been
+  if (error.status !== 429 && !IDEMPOTENT_METHODS.has(method.toUpperCase())) return undefined;
+
+  if (error.retryAfter !== undefined) {
+    const wait = error.retryAfter * 1000;
+    return wait <= retry.maxDelayMs ? wait : undefined;
+  }
+  const backoff = Math.min(retry.maxDelayMs, retry.initialDelayMs * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+/**
+ * Run a call under the limiter, retrying per the policy. Failures that ran
+ * out of retries carry the number of attempts made.
+ */
+export async function callWithPolicy<T>(
+  limiter: RateLimiter,
+  policy: RateLimitPolicy,
+  call: RateLimitedCall & { method: string },
+  send: () => Promise<ActionResult<T>>,
+  clock: RateLimitClock = {}
+): Promise<ActionResult<T>> {
+  const sleep = clock.sleep || defaultSleep;
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire(call);
+    const result = await send();
+    if (result.ok) return result;
+
+    const delay = retryDelay(result.error, call.method, attempt, policy.retry);
+    if (delay === undefined) {
+      return attempt === 0 ? result : { ok: false, error: { ...result.error, attempts: attempt + 1 } };
+    }
+    // acquire() waits out the pause, for this call and every other one
+    if (result.error.status === 429) limiter.pause(delay / 1000);
+    else await sleep(delay);
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * OpenAPI Schema Resolver
+ *
+ * Converts OpenAPI schemas into self-contained JSON Schema for action
+ * config, response and payload schemas:
+ *
+ * - oneOf/anyOf are kept, allOf is merged when the parts are plain objects
+ * - OpenAPI 3.0 `nullable` becomes a JSON Schema null type
+ * - $refs are followed into any part of the document (schemas, parameters,
+ *   requestBodies, responses) and into external documents
+ * - recursive schemas are emitted once under `$defs` and referenced, so
+ *   conversion always terminates
+ */
+
+import { dirname, resolve } from 'path';
+import type { JSONSchema } from './types';
+import type { OpenAPISpec, Reference, Schema } from './openapi-types';
+import { loadDocument } from './spec-loader';
+
+export interface SchemaResolverOptions {
+  /** Named schemas nested deeper than this many $refs are emitted under $defs (default 2) */
+  inlineDepth?: number;
+  /** Named schemas nested deeper than this many $refs are replaced by a stub (default 4) */
+  maxDepth?: number;
+  /** URI or file path of the root spec, used to resolve relative external refs */
+  baseUri?: string;
+  /** External documents keyed by absolute URI, see loadExternalDocuments() */
+  documents?: Map<string, unknown>;
+}
+
+/**
+ * Collects $defs for one root schema, e.g. one action's configSchema
+ */
+export interface SchemaScope {
+  convert(schema: Schema | undefined): JSONSchema;
+  /** Attach the $defs collected so far to the root schema */
+  finish<T extends JSONSchema>(root: T): T;
+}
+
+export interface SchemaResolver {
+  /** Follow $refs on a non-schema object (parameter, request body, response) */
+  deref<T extends object>(value: T | Reference): T;
+  createScope(): SchemaScope;
+  /** Convert a standalone schema in its own scope */
+  convert(schema: Schema | undefined): JSONSchema;
+}
+
+interface Location {
+  key: string;
+  doc: string;
+  pointer: string;
+}
+
+interface Context {
+  base: string;
+  stack: string[];
+  depth: number;
+}
+
+const COPIED_KEYWORDS = [
+  'type', 'format', 'title', 'description', 'enum', 'const', 'default',
+  'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'deprecated',
+] as const;
+
+function isUrl(uri: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(uri);
+}
+
+/**
+ * Normalize a spec source to the absolute URI used as a document key
+ */
+export function normalizeUri(source: string): string {
+  return isUrl(source) ? source : resolve(source);
+}
+
+function resolveUri(base: string, relativeUri: string): string {
+  if (isUrl(relativeUri)) return relativeUri;
+  if (isUrl(base)) return new URL(relativeUri, base).href;
+  return resolve(dirname(base), relativeUri);
+}
+
+function decodePointerSegment(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Collect every $ref string in a document
+ */
+function collectRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') {
+        refs.add(child);
+      } else {
+        collectRefs(child, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Load every external document referenced from the spec, transitively
+ */
+export async function loadExternalDocuments(
+  spec: unknown,
+  source: string,
+  load: (uri: string) => Promise<unknown> = uri => loadDocument(uri)
+): Promise<Map<string, unknown>> {
+  const root = normalizeUri(source);
+  const documents = new Map<string, unknown>();
+  const queue: Array<[unknown, string]> = [[spec, root]];
+
+  while (queue.length > 0) {
+    const [document, base] = queue.shift()!;
+
+    for (const ref of collectRefs(document)) {
+      const [docPart] = ref.split('#');
+      if (!docPart) continue;
+
+      const uri = resolveUri(base, docPart);
+      if (uri === root || documents.has(uri)) continue;
+
+      const loaded = await load(uri);
+      documents.set(uri, loaded);
+      queue.push([loaded, uri]);
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Create a resolver bound to one spec
+ */
+export function createSchemaResolver(spec: OpenAPISpec, options: SchemaResolverOptions = {}): SchemaResolver {
+  const inlineDepth = options.inlineDepth ?? 2;
+  const maxDepth = options.maxDepth ?? 4;
+  const root = options.baseUri ? normalizeUri(options.baseUri) : '';
+  const documents = options.documents || new Map<string, unknown>();
+
+  // $defs names are shared across scopes so a schema keeps one name everywhere
+  const defNames = new Map<string, string>();
+  const usedNames = new Set<string>();
+
+  function locate(ref: string, base: string): Location {
+    const [docPart, pointer = ''] = ref.split('#');
+    const doc = docPart ? resolveUri(base || root, docPart) : base;
+    return { key: `${doc}#${pointer}`, doc, pointer };
+  }
+
+  function lookup(location: Location): unknown {
+    const document = location.doc === root ? spec : documents.get(location.doc);
+    if (document === undefined) {
+      throw new Error(`External document not loaded: ${location.doc}`);
+    }
+
+    let node: unknown = document;
+    for (const segment of location.pointer.split('/').slice(1)) {
+      node = node && typeof node === 'object'
+        ? (node as Record<string, unknown>)[decodePointerSegment(segment)]
+        : undefined;
+    }
+    if (node === undefined) {
+      throw new Error(`Unresolvable $ref: ${location.key}`);
+    }
+    return node;
+  }
+
+  function defName(location: Location): string {
+    const existing = defNames.get(location.key);
+    if (existing) return existing;
+
+    const segments = location.pointer.split('/').filter(Boolean);
+    const base = (segments.length > 0 ? decodePointerSegment(segments[segments.length - 1]) : 'root')
+      .replace(/[^A-Za-z0-9_.-]/g, '_');
+
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+    usedNames.add(name);
+    defNames.set(location.key, name);
+    return name;
+  }
+
+  function deref<T extends object>(value: T | Reference): T {
+    let current: unknown = value;
+    let base = root;
+    const seen = new Set<string>();
+
+    while (current && typeof current === 'object' && '$ref' in current) {
+      const location = locate((current as Reference).$ref, base);
+      if (seen.has(location.key)) {
+        throw new Error(`Circular $ref: ${location.key}`);
+      }
+      seen.add(location.key);
+      current = lookup(location);
+      base = location.doc;
+    }
+
+    return current as T;
+  }
+
+  function createScope(): SchemaScope {
+    const defs: Record<string, JSONSchema> = {};
+    const pending = new Map<string, { location: Location; depth: number }>();
+
+    function requireDef(location: Location, depth: number): JSONSchema {
+      const name = defName(location);
+      if (!(name in defs) && !pending.has(location.key)) {
+        pending.set(location.key, { location, depth });
+      }
+      return { $ref: `#/$defs/${name}` };
+    }
+
+    function stub(target: Schema, name: string): JSONSchema {
+      return {
+        ...(target.type ? { type: target.type } : {}),
+        title: name,
+        ...(target.description ? { description: target.description } : {}),
+      };
+    }
+
+    function convertRef(ref: string, context: Context): JSONSchema {
+      const location = locate(ref, context.base);
+      const target = lookup(location) as Schema;
+
+      if (context.stack.includes(location.key)) {
+        return requireDef(location, context.depth);
+      }
+      if (context.depth >= maxDepth) {
+        return stub(target, defName(location));
+      }
+      if (context.depth >= inlineDepth) {
+        return requireDef(location, context.depth);
+      }
+
+      return convertNode(target, {
+        base: location.doc,
+        stack: [...context.stack, location.key],
+        depth: context.depth + 1,
+      });
+    }
+
+    function convertNode(schema: Schema, context: Context): JSONSchema {
+      let result: JSONSchema;
+
+      if (schema.$ref) {
+        result = convertRef(schema.$ref, context);
+        if (schema.description) {
+          result = { ...result, description: schema.description };
+        }
+      } else {
+        result = {};
+
+        for (const keyword of COPIED_KEYWORDS) {
+          if (schema[keyword] !== undefined) (result as Record<string, unknown>)[keyword] = schema[keyword];
+        }
+
+        if (schema.properties) {
+          result.properties = {};
+          for (const [key, propSchema] of Object.entries(schema.properties)) {
+            result.properties[key] = convertNode(propSchema, context);
+          }
+        }
+
+        if (schema.additionalProperties !== undefined) {
+          result.additionalProperties = typeof schema.additionalProperties === 'boolean'
+            ? schema.additionalProperties
+            : convertNode(schema.additionalProperties, context);
+        }
+
+        if (schema.items) {
+          result.items = convertNode(schema.items, context);
+        }
+
+        if (schema.required) {
+          result.required = schema.required;
+        }
+
+        if (schema.oneOf) {
+          result.oneOf = schema.oneOf.map(part => convertNode(part, context));
+        }
+
+        if (schema.anyOf) {
+          result.anyOf = schema.anyOf.map(part => convertNode(part, context));
+        }
+
+        if (schema.allOf) {
+          result = mergeAllOf(result, schema.allOf.map(part => convertNode(part, context)));
+        }
+      }
+
+      return schema.nullable ? makeNullable(result) : result;
+    }
+
+    return {
+      convert(schema) {
+        if (!schema) {
+          return { type: 'object', properties: {} };
+        }
+        return convertNode(schema, { base: root, stack: [], depth: 0 });
+      },
+
+      finish(rootSchema) {
+        for (const [key, { location, depth }] of pending) {
+          pending.delete(key);
+          defs[defName(location)] = convertNode(lookup(location) as Schema, {
+            base: location.doc,
+            stack: [key],
+            depth: depth + 1,
+          });
+        }
+
+        if (Object.keys(defs).length === 0) return rootSchema;
+        return { ...rootSchema, $defs: { ...(rootSchema.$defs as object), ...defs } };
+      },
+    };
+  }
+
+  return {
+    deref,
+    createScope,
+    convert(schema) {
+      const scope = createScope();
+      return scope.finish(scope.convert(schema));
+    },
+  };
+}
+
+/**
+ * Merge allOf parts into the parent when they are all plain object schemas
+ */
+function mergeAllOf(parent: JSONSchema, parts: JSONSchema[]): JSONSchema {
+  const mergeable = parts.every(part =>
+    !part.$ref && !part.oneOf && !part.anyOf && !part.allOf &&
+    (part.type === undefined || part.type === 'object')
+  );
+  if (!mergeable) {
+    return parts.length === 1 ? { ...parts[0], ...parent } : { ...parent, allOf: parts };
+  }
+
+  const merged: JSONSchema = { ...parent };
+  for (const part of parts) {
+    if (part.type === 'object') merged.type = 'object';
+    if (part.description && !merged.description) merged.description = part.description;
+    if (part.properties) {
+      merged.properties = { ...merged.properties, ...part.properties };
+    }
+    if (part.required) {
+      merged.required = [...new Set([...(merged.required || []), ...part.required])];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Turn an OpenAPI 3.0 `nullable: true` schema into a JSON Schema that accepts null
+ */
+function makeNullable(schema: JSONSchema): JSONSchema {
+  if (typeof schema.type === 'string') {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(schema.enum && !schema.enum.includes(null) ? { enum: [...schema.enum, null] } : {}),
+    };
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes('null') ? schema : { ...schema, type: [...schema.type, 'null'] };
+  }
+  if (schema.anyOf) {
+    return { ...schema, anyOf: [...(schema.anyOf as JSONSchema[]), { type: 'null' }] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
@@ -0,0 +1,97 @@
+/**
+ * Schema Samples
+ *
+ * Builds deterministic sample values from the JSON Schemas in manifests, for
+ * mock tool results and synthetic provider responses. Examples, defaults,
+ * consts and enums are used when the schema has them; everything else gets
+ * a placeholder of the right type and format.
+ */
+
+import type { JSONSchema } from './types';
+
+/**
+ * Deepest level of nested objects and arrays filled in; below it objects are
+ * empty and arrays have no items
+ */
+const MAX_DEPTH = 4;
+
+const FORMAT_SAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  time: '00:00:00Z',
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  uuid: '00000000-0000-4000-8000-000000000000',
+  ipv4: '192.0.2.1',
+  binary: '',
+};
+
+function resolveRef(schema: JSONSchema, defs: Record<string, JSONSchema>): JSONSchema {
+  const ref = typeof schema.$ref === 'string' ? schema.$ref.match(/^#\/\$defs\/(.+)$/) : null;
+  if (!ref || !defs[ref[1]]) return schema;
+  const { $ref, ...rest } = schema;
+  return { ...defs[ref[1]], ...rest };
+}
+
+function firstType(type: JSONSchema['type']): string | undefined {
+  return Array.isArray(type) ? type.find(entry => entry !== 'null') : type;
+}
+
+function sampleString(schema: JSONSchema, name: string | undefined): string {
+  if (schema.format && FORMAT_SAMPLES[schema.format] !== undefined) return FORMAT_SAMPLES[schema.format];
+  if (name === 'id' || name?.endsWith('_id') || name?.endsWith('Id')) return `${name}_123`;
+  if (name === 'object') return 'object';
+  const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+  return 'string'.padEnd(minLength, 'x');
+}
+
+/**
+ * A sample value for a schema; `name` is the property it's for, used to give
+ * ids and the like recognisable values
+ */
+export function sampleFromSchema(
+  input: JSONSchema,
+  defs: Record<string, JSONSchema> = (input.$defs || {}) as Record<string, JSONSchema>,
+  name?: string,
+  depth = 0
+): unknown {
+  const schema = resolveRef(input, defs);
+
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const branches = (schema.anyOf || schema.oneOf || schema.allOf) as JSONSchema[] | undefined;
+  if (Array.isArray(branches) && branches.length > 0) {
+    if (schema.allOf) {
+      return Object.assign({}, ...branches.map(branch => sampleFromSchema(branch, defs, name, depth + 1)));
+    }
+    const branch = branches.find(option => firstType(resolveRef(option, defs).type) !== 'null') || branches[0];
+    return sampleFromSchema(branch, defs, name, depth + 1);
+  }
+
+  switch (firstType(schema.type) || (schema.properties ? 'object' : undefined)) {
+    case 'object': {
+      if (depth >= MAX_DEPTH || !schema.properties) return {};
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, sampleFromSchema(value, defs, key, depth + 1)])
+      );
+    }
+    case 'array':
+      return depth >= MAX_DEPTH || !schema.items ? [] : [sampleFromSchema(schema.items, defs, name, depth + 1)];
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 1;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    case 'string':
+      return sampleString(schema, name);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Spec Loader
+ *
+ * Reads API specs from URLs, file:// URLs or local paths, in JSON or YAML.
+ * Swagger 2.0 documents are normalized to OpenAPI 3.
+ *
+ * Fetched specs are kept in a content-hashed cache (.cache/specs by default):
+ * each download is stored as <sha256>.<ext> and index.json maps the source URL
+ * to its latest hash. A cached copy is used instead of downloading again, so
+ * reruns are reproducible and need no network; refresh mode fetches the latest
+ * version and falls back to the cache only when the download fails.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { extname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import type { OpenAPISpec } from './openapi-types';
+import { isSwagger2, normalizeSwagger2 } from './swagger2';
+
+export const DEFAULT_SPEC_CACHE_DIR = '.cache/specs';
+
+export interface SpecCacheOptions {
+  /** Cache directory (default .cache/specs); set to false to disable caching */
+  dir?: string | false;
+  /** Never touch the network; fail when a URL isn't cached */
+  offline?: boolean;
+  /** Download URLs even when they are cached, to pick up spec updates */
+  refresh?: boolean;
+}
+
+export interface LoadedSpec {
+  spec: OpenAPISpec;
+  /** sha256 of the raw document */
+  hash: string;
+  /** Where the document was read from */
+  origin: 'file' | 'network' | 'cache';
+}
+
+interface CacheEntry {
+  hash: string;
+  file: string;
+  fetchedAt: string;
+}
+
+function isHttpUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Resolve a local path or file:// URL to a filesystem path
+ */
+function toFilePath(source: string): string {
+  return source.startsWith('file://') ? fileURLToPath(source) : resolve(source);
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Parse JSON or YAML, choosing by extension and falling back to sniffing
+ */
+export function parseDocument(text: string, name: string = ''): unknown {
+  const extension = extname(name.split(/[?#]/)[0]).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(text);
+  }
+  if (extension === '.json' || /^\s*[{[]/.test(text)) {
+    return JSON.parse(text);
+  }
+  return parseYaml(text);
+}
+
+function readIndex(dir: string): Record<string, CacheEntry> {
+  const file = join(dir, 'index.json');
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+}
+
+function writeCache(dir: string, source: string, text: string, hash: string): void {
+  mkdirSync(dir, { recursive: true });
+
+  const extension = extname(new URL(source).pathname).toLowerCase() || '.json';
+  const file = `${hash}${extension}`;
+  if (!existsSync(join(dir, file))) {
+    writeFileSync(join(dir, file), text);
+  }
+
+  const index = readIndex(dir);
+  if (index[source]?.hash !== hash) {
+    index[source] = { hash, file, fetchedAt: new Date().toISOString() };
+    writeFileSync(join(dir, 'index.json'), JSON.stringify(index, null, 2) + '\n');
+  }
+}
+
+function readCache(dir: string, source: string): string | undefined {
+  const entry = readIndex(dir)[source];
+  if (!entry || !existsSync(join(dir, entry.file))) return undefined;
+
+  const text = readFileSync(join(dir, entry.file), 'utf8');
+  if (sha256(text) !== entry.hash) {
+    throw new Error(`Cached spec for ${source} does not match its hash ${entry.hash}`);
+  }
+  return text;
+}
+
+/**
+ * Read the raw text of a document, going through the cache for URLs
+ */
+async function readSource(
+  source: string,
+  cache: SpecCacheOptions
+): Promise<{ text: string; origin: LoadedSpec['origin'] }> {
+  if (!isHttpUrl(source)) {
+    return { text: readFileSync(toFilePath(source), 'utf8'), origin: 'file' };
+  }
+
+  const dir = cache.dir === false ? undefined : resolve(cache.dir || DEFAULT_SPEC_CACHE_DIR);
+  if (cache.offline || !cache.refresh) {
+    const cached = dir && readCache(dir, source);
+    if (cached) return { text: cached, origin: 'cache' };
+    if (cache.offline) throw new Error(`Offline and no cached copy of ${source}`);
+  }
+
+  try {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${source}: ${response.status}`);
+    }
+    const text = await response.text();
+    if (dir) writeCache(dir, source, text, sha256(text));
+    return { text, origin: 'network' };
+  } catch (error) {
+    const cached = dir && readCache(dir, source);
+    if (!cached) throw error;
+    console.warn(`  ⚠ ${(error as Error).message}; using cached copy`);
+    return { text: cached, origin: 'cache' };
+  }
+}
+
+/**
+ * Load any JSON or YAML document, e.g. an external $ref target
+ */
+export async function loadDocument(source: string, cache: SpecCacheOptions = {}): Promise<unknown> {
+  const { text } = await readSource(source, cache);
+  return parseDocument(text, source);
+}
+
+/**
+ * Load an OpenAPI 3 or Swagger 2.0 spec as OpenAPI 3
+ */
+export async function loadSpec(source: string, cache: SpecCacheOptions = {}): Promise<LoadedSpec> {
+  const { text, origin } = await readSource(source, cache);
+  const document = parseDocument(text, source);
+
+  if (isSwagger2(document)) {
+    return { spec: normalizeSwagger2(document), hash: sha256(text), origin };
+  }
+
+  const spec = document as OpenAPISpec;
+  if (!spec || typeof spec !== 'object' || !spec.openapi || !spec.paths) {
+    throw new Error(`${source} is not an OpenAPI 3 or Swagger 2.0 document`);
+  }
+  return { spec, hash: sha256(text), origin };
+}
@@ -0,0 +1,273 @@
+/**
+ * Swagger 2.0 Normalization
+ *
+ * Converts a Swagger 2.0 document into the OpenAPI 3 shape the generators
+ * read (see openapi-types.ts):
+ *
+ * - host/basePath/schemes become `servers`
+ * - `definitions`, `parameters` and `responses` move under `components`
+ * - body and formData parameters become a `requestBody` per `consumes` type
+ * - response schemas become `content` per `produces` type
+ * - `securityDefinitions` become `components.securitySchemes`
+ * - `x-nullable` becomes `nullable` and `type: file` becomes a binary string
+ */
+
+import type {
+  OpenAPISpec,
+  Parameter,
+  RequestBody,
+  Response,
+  Schema,
+  SecurityScheme,
+} from './openapi-types';
+
+type JsonObject = Record<string, any>;
+
+interface SwaggerParameter extends JsonObject {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'body' | 'formData';
+  description?: string;
+  required?: boolean;
+  schema?: JsonObject;
+}
+
+interface SwaggerDocument extends JsonObject {
+  swagger: string;
+  info: OpenAPISpec['info'];
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  produces?: string[];
+  paths?: Record<string, JsonObject>;
+  definitions?: Record<string, JsonObject>;
+  parameters?: Record<string, SwaggerParameter>;
+  responses?: Record<string, JsonObject>;
+  securityDefinitions?: Record<string, JsonObject>;
+}
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+/** Parameter keywords that describe the value and move into `schema` in OpenAPI 3 */
+const PARAMETER_SCHEMA_KEYWORDS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum',
+  'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems',
+];
+
+const OAUTH_FLOWS: Record<string, string> = {
+  accessCode: 'authorizationCode',
+  application: 'clientCredentials',
+  implicit: 'implicit',
+  password: 'password',
+};
+
+export function isSwagger2(document: unknown): document is SwaggerDocument {
+  return Boolean(document && typeof document === 'object' && (document as JsonObject).swagger === '2.0');
+}
+
+/**
+ * Rewrite $refs to their OpenAPI 3 locations and fix Swagger-only schema keywords
+ */
+function upgradeNode(value: unknown, bodyParameters: Set<string>): any {
+  if (Array.isArray(value)) {
+    return value.map(item => upgradeNode(item, bodyParameters));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: JsonObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '$ref' && typeof child === 'string') {
+      result.$ref = child
+        .replace(/#\/definitions\//, '#/components/schemas/')
+        .replace(/#\/parameters\/([^/]+)$/, (_, name: string) =>
+          bodyParameters.has(name) ? `#/components/requestBodies/${name}` : `#/components/parameters/${name}`)
+        .replace(/#\/responses\//, '#/components/responses/');
+    } else if (key === 'x-nullable') {
+      result.nullable = child;
+    } else {
+      result[key] = upgradeNode(child, bodyParameters);
+    }
+  }
+
+  if (result.type === 'file') {
+    result.type = 'string';
+    result.format = 'binary';
+  }
+  return result;
+}
+
+function toParameter(param: SwaggerParameter): Parameter {
+  const schema: JsonObject = { ...param.schema };
+  const rest: JsonObject = {};
+  for (const [key, value] of Object.entries(param)) {
+    if (PARAMETER_SCHEMA_KEYWORDS.includes(key)) {
+      schema[key] = value;
+    } else if (key !== 'collectionFormat' && key !== 'allowEmptyValue') {
+      rest[key] = value;
+    }
+  }
+  return { ...rest, schema } as Parameter;
+}
+
+function contentFor(types: string[], schema: Schema | undefined): Record<string, { schema?: Schema }> {
+  return Object.fromEntries(types.map(type => [type, schema ? { schema } : {}]));
+}
+
+function toRequestBody(param: SwaggerParameter, consumes: string[]): RequestBody {
+  return {
+    ...(param.description ? { description: param.description } : {}),
+    ...(param.required ? { required: true } : {}),
+    content: contentFor(consumes, param.schema as Schema),
+  };
+}
+
+/**
+ * Collect formData parameters into one object schema
+ */
+function formDataBody(params: SwaggerParameter[], consumes: string[]): RequestBody {
+  const properties: Record<string, Schema> = {};
+  const required: string[] = [];
+  for (const param of params) {
+    properties[param.name] = {
+      ...(toParameter(param).schema as Schema),
+      ...(param.description ? { description: param.description } : {}),
+    };
+    if (param.required) required.push(param.name);
+  }
+
+  const hasFile = params.some(param => param.type === 'string' && param.format === 'binary');
+  const formTypes = consumes.filter(type => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded');
+  const types = hasFile ? ['multipart/form-data'] : formTypes.length > 0 ? formTypes : ['application/x-www-form-urlencoded'];
+
+  return {
+    content: contentFor(types, { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }),
+  };
+}
+
+function toResponse(response: JsonObject, produces: string[]): Response {
+  const { schema, examples: _examples, headers: _headers, ...rest } = response;
+  return { ...rest, ...(schema ? { content: contentFor(produces, schema) } : {}) };
+}
+
+function toSecurityScheme(definition: JsonObject): SecurityScheme {
+  const { type, flow, authorizationUrl, tokenUrl, scopes, ...rest } = definition;
+  if (type === 'basic') {
+    return { ...rest, type: 'http', scheme: 'basic' };
+  }
+  if (type === 'oauth2') {
+    return {
+      ...rest,
+      type: 'oauth2',
+      flows: {
+        [OAUTH_FLOWS[flow] || 'authorizationCode']: {
+          ...(authorizationUrl ? { authorizationUrl } : {}),
+          ...(tokenUrl ? { tokenUrl } : {}),
+          scopes: scopes || {},
+        },
+      },
+    };
+  }
+  return { ...rest, type } as SecurityScheme;
+}
+
+/**
+ * Convert a Swagger 2.0 document to OpenAPI 3
+ */
+export function normalizeSwagger2(source: SwaggerDocument): OpenAPISpec {
+  const bodyParameters = new Set(
+    Object.entries(source.parameters || {})
+      .filter(([, param]) => param.in === 'body' || param.in === 'formData')
+      .map(([name]) => name)
+  );
+  const swagger = upgradeNode(source, bodyParameters) as SwaggerDocument;
+  const globalConsumes = swagger.consumes || ['application/json'];
+  const globalProduces = swagger.produces || ['application/json'];
+
+  // Dereference shared parameters so body and formData ones can be folded into requestBody
+  const sharedParameter = (param: JsonObject): SwaggerParameter => {
+    const name = typeof param.$ref === 'string' ? param.$ref.match(/^#\/components\/requestBodies\/(.+)$/)?.[1] : undefined;
+    return name && swagger.parameters?.[name] ? swagger.parameters[name] : param as SwaggerParameter;
+  };
+
+  const paths: OpenAPISpec['paths'] = {};
+  for (const [path, pathItem] of Object.entries(swagger.paths || {})) {
+    const pathParameters: JsonObject[] = pathItem.parameters || [];
+    const item: JsonObject = {};
+
+    for (const [key, value] of Object.entries(pathItem)) {
+      if (key === 'parameters') continue;
+      if (!METHODS.includes(key)) {
+        item[key] = value;
+        continue;
+      }
+
+      const { parameters = [], consumes, produces, responses = {}, ...operation } = value as JsonObject;
+      const operationConsumes: string[] = consumes || globalConsumes;
+      const operationProduces: string[] = produces || globalProduces;
+
+      // Operation parameters override path-level ones with the same name and location
+      const merged = [...pathParameters, ...parameters].map(sharedParameter);
+      const byKey = new Map<string, SwaggerParameter>();
+      for (const param of merged) {
+        byKey.set(param.$ref ? param.$ref : `${param.in}:${param.name}`, param);
+      }
+      const all = [...byKey.values()];
+
+      const body = all.find(param => param.in === 'body');
+      const formData = all.filter(param => param.in === 'formData');
+
+      item[key] = {
+        ...operation,
+        parameters: all
+          .filter(param => param.in !== 'body' && param.in !== 'formData')
+          .map(param => param.$ref ? param : toParameter(param)),
+        ...(body ? { requestBody: toRequestBody(body, operationConsumes) } : {}),
+        ...(!body && formData.length > 0 ? { requestBody: formDataBody(formData, operationConsumes) } : {}),
+        responses: Object.fromEntries(
+          Object.entries(responses as Record<string, JsonObject>).map(([status, response]) =>
+            [status, response.$ref ? response : toResponse(response, operationProduces)])
+        ),
+      };
+    }
+
+    paths[path] = item;
+  }
+
+  const parameters: Record<string, Parameter> = {};
+  const requestBodies: Record<string, RequestBody> = {};
+  for (const [name, param] of Object.entries(swagger.parameters || {})) {
+    if (param.in === 'body') {
+      requestBodies[name] = toRequestBody(param, globalConsumes);
+    } else if (param.in === 'formData') {
+      requestBodies[name] = formDataBody([param], globalConsumes);
+    } else {
+      parameters[name] = toParameter(param);
+    }
+  }
+
+  const {
+    swagger: _version, host, basePath, schemes, consumes: _consumes, produces: _produces,
+    definitions, parameters: _parameters, responses, securityDefinitions, paths: _paths, ...rest
+  } = swagger;
+
+  return {
+    ...rest,
+    openapi: '3.0.0',
+    info: swagger.info,
+    ...(host ? { servers: [{ url: `${(schemes || ['https'])[0]}://${host}${basePath || ''}` }] } : {}),
+    paths,
+    components: {
+      schemas: (definitions || {}) as Record<string, Schema>,
+      parameters,
+      requestBodies,
+      responses: Object.fromEntries(
+        Object.entries(responses || {}).map(([name, response]) => [name, toResponse(response, globalProduces)])
+      ),
+      securitySchemes: Object.fromEntries(
+        Object.entries(securityDefinitions || {}).map(([name, definition]) => [name, toSecurityScheme(definition)])
+      ),
+    },
+  };
+}
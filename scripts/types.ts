@@ -0,0 +1,261 @@
+/**
+ * Adapter Manifest Types
+ *
+ * Typed model of adapters/<slug>/manifest.json and its sharded layout.
+ * Mirrors schemas/adapter-manifest.schema.json and the index and shard
+ * schemas - keep them in sync.
+ */
+
+/**
+ * An embedded JSON Schema (config, response, payload and MCP input schemas)
+ */
+export interface JSONSchema {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  items?: JSONSchema;
+  required?: string[];
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+}
+
+/**
+ * A JSON Schema describing an object input
+ */
+export interface ObjectSchema extends JSONSchema {
+  type: 'object';
+  properties: Record<string, JSONSchema>;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Where an action parameter is sent in the HTTP request
+ */
+export type ParameterLocation = 'path' | 'query' | 'header' | 'body';
+
+/**
+ * An operation the adapter can perform
+ *
+ * `method` and `endpoint` are optional for backwards compatibility with
+ * hand-written adapters, but must be given together. New adapters should
+ * always set both so the action is executable. Properties missing from
+ * `parameterLocations` are sent in the body.
+ */
+export interface ActionDefinition {
+  id: string;
+  name: string;
+  description: string;
+  summary?: string;
+  category: string;
+  method?: HttpMethod;
+  endpoint?: string;
+  parameterLocations?: Record<string, ParameterLocation>;
+  contentType?: string;
+  configSchema: ObjectSchema;
+  responseSchema?: JSONSchema;
+  /** How a list action's results are paged, for walking every page */
+  pagination?: PaginationDescriptor;
+}
+
+/**
+ * How a list action pages its results; paths are dot-separated into the
+ * response body
+ *
+ * - cursor: `param` takes the value at `nextPath`, or the last item's
+ *   `cursorField` (Stripe's `starting_after` from `id`)
+ * - page: `param` is a page number counting from `firstPage`
+ * - offset: `param` is the number of items already read
+ */
+export interface PaginationDescriptor {
+  style: 'cursor' | 'page' | 'offset';
+  /** Config param carrying the cursor, page number or offset */
+  param: string;
+  /** Config param for the page size */
+  limitParam?: string;
+  /** Largest page size the provider accepts */
+  maxLimit?: number;
+  /** Page size when limitParam isn't set, or the fixed size when there is none */
+  defaultLimit?: number;
+  /** page style: number of the first page (default: 1) */
+  firstPage?: number;
+  /** Path to the items (default: the body is the array) */
+  itemsPath?: string;
+  /** Path to the next cursor or next page URL; a URL's query param named `urlParam` (default: `param`) is used */
+  nextPath?: string;
+  urlParam?: string;
+  /** cursor style without nextPath: the item field the next cursor comes from (default: "id") */
+  cursorField?: string;
+  /** Path to a flag saying whether there are more pages (Stripe's `has_more`) */
+  hasMorePath?: string;
+}
+
+/**
+ * An event the adapter can receive via webhook
+ */
+export interface TriggerDefinition {
+  id: string;
+  name: string;
+  description: string;
+  summary?: string;
+  event: string;
+  category?: string;
+  payloadSchema?: JSONSchema;
+}
+
+export type SignatureAlgorithm = 'hmac-sha256' | 'hmac-sha1' | 'hmac-sha512' | 'ecdsa' | 'rsa-sha256' | 'none';
+
+/**
+ * How signatures are packed into the signature header
+ */
+export interface SignatureFormat {
+  /** raw: the whole value; pairs: `t=…,v1=…`; list: `v1,<sig> v1,<sig>` */
+  type: 'raw' | 'pairs' | 'list';
+  /** Between entries (default "," for pairs, " " for list) */
+  separator?: string;
+  /** Key or version marking signature entries, e.g. "v1" */
+  signatureKey?: string;
+  /** pairs only: key of the timestamp entry, e.g. "t" */
+  timestampKey?: string;
+  /** raw only: text before the signature, e.g. "sha256=" */
+  prefix?: string;
+}
+
+/**
+ * Inbound webhook configuration
+ *
+ * `signedContent` is the string the provider signs, with `{body}`, `{timestamp}`,
+ * `{id}`, `{url}` and `{params}` (form params sorted by name, each name followed
+ * by its value) replaced; it defaults to `{body}`.
+ */
+export interface WebhookConfig {
+  supported: boolean;
+  signatureHeader?: string;
+  signatureAlgorithm?: SignatureAlgorithm;
+  /** Default: hex */
+  signatureEncoding?: 'hex' | 'base64';
+  /** Default: raw */
+  signatureFormat?: SignatureFormat;
+  signedContent?: string;
+  timestampHeader?: string;
+  /** Header with the delivery id, signed by some schemes and used for replay protection */
+  idHeader?: string;
+  /** Seconds a timestamped delivery stays valid (default: 300) */
+  timestampTolerance?: number;
+  /** How the HMAC secret is written (default: utf8); ecdsa and rsa take a PEM or base64 DER public key */
+  secretEncoding?: 'utf8' | 'base64';
+  /** Stripped from the secret before use, e.g. "whsec_" */
+  secretPrefix?: string;
+  /** Where deliveries keep their events */
+  events?: EventExtraction;
+}
+
+/**
+ * Where inbound deliveries keep their events. `event` and `idempotencyKey`
+ * are templates over each event, with `{path}` replaced by the value at that
+ * dot-separated path; from a list, the first that resolves is used.
+ */
+export interface EventExtraction {
+  /** Default: from the Content-Type header, else json */
+  bodyFormat?: 'json' | 'form';
+  /** Path to the array of events in batched deliveries; "$" when the body is the array */
+  batchPath?: string;
+  event: string | string[];
+  /** Extracted event names that differ from their trigger's `event` */
+  eventMap?: Record<string, string>;
+  /** Path to when the event happened: ISO 8601, RFC 2822, Unix seconds or milliseconds (default: when it was received) */
+  occurredAt?: string;
+  /** Default: the delivery's id header, else a hash of the event */
+  idempotencyKey?: string | string[];
+  /** Path to the payload handed to the trigger (default: the whole event) */
+  payload?: string;
+}
+
+/**
+ * A tool exposed to AI agents over MCP
+ */
+export interface MCPToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  /** Action ids the tool runs, keyed by the `operation` input that selects them */
+  actions?: Record<string, string>;
+  /** Built by scripts/mcp-tools.ts; tools without it are curated and never replaced */
+  generated?: boolean;
+}
+
+/**
+ * Category index entry used for browsing large manifests
+ */
+export interface CategoryIndexEntry {
+  id: string;
+  name: string;
+  actions: number;
+  triggers: number;
+}
+
+/**
+ * Contents of adapters/<slug>/manifest.json
+ */
+export interface AdapterManifest {
+  $schema?: string;
+  categories?: CategoryIndexEntry[];
+  actions: ActionDefinition[];
+  triggers: TriggerDefinition[];
+  webhooks?: WebhookConfig;
+  mcp?: {
+    tools: MCPToolDefinition[];
+  };
+}
+
+/**
+ * How an adapter's manifest is stored: one manifest.json, or
+ * manifest.index.json plus per-category shards under manifest/
+ */
+export type ManifestLayout = 'single' | 'sharded';
+
+/**
+ * An action or trigger in the manifest index, pointing at the shard that holds it
+ */
+export interface ManifestIndexEntry {
+  id: string;
+  name: string;
+  category?: string;
+  /** Shard file, relative to the adapter directory */
+  shard: string;
+}
+
+/**
+ * Contents of adapters/<slug>/manifest.index.json
+ */
+export interface ManifestIndex {
+  $schema?: string;
+  categories: Array<CategoryIndexEntry & { shard: string }>;
+  actions: ManifestIndexEntry[];
+  triggers: Array<ManifestIndexEntry & { event: string }>;
+  webhooks?: WebhookConfig;
+  mcp?: {
+    shard: string;
+    tools: string[];
+  };
+}
+
+/**
+ * Contents of one adapters/<slug>/manifest/<shard>.json file
+ *
+ * Sub-schemas repeated within the shard live once in `$defs` and are
+ * referenced as `#/$defs/<name>` from the embedded schemas.
+ */
+export interface ManifestShard {
+  $schema?: string;
+  category?: string;
+  actions?: ActionDefinition[];
+  triggers?: TriggerDefinition[];
+  tools?: MCPToolDefinition[];
+  $defs?: Record<string, JSONSchema>;
+}
@@ -0,0 +1,646 @@
+/**
+ * Registry Validator
+ *
+ * Validates every adapter against the JSON schemas in schemas/ and runs
+ * cross-file checks between the root manifest and each adapter directory.
+ * Sharded manifests are checked shard by shard and then as a whole.
+ *
+ * Usage:
+ *   npx tsx scripts/validate.ts           # human-readable report
+ *   npx tsx scripts/validate.ts --json    # machine-readable report
+ *
+ * Exits with code 1 when any error is found.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import type { AdapterManifest, ManifestIndex, ManifestShard } from './types';
+import type { AuthConfig } from './auth-config';
+import { buildCategoryIndex } from './openapi-generator';
+import { OVERRIDES_FILE, type AdapterOverrides } from './overrides';
+import { INDEX_FILE, MANIFEST_FILE, assembleManifest, unresolvedDefRefs } from './manifest-shards';
+import { detectLayout, listManifestFiles, shardsOf } from './manifest-loader';
+import { checkTestVectors } from './webhook-verifier';
+import { WEBHOOK_TEST_VECTORS } from './webhook-vectors';
+import { CHANGES_FILE, type AdapterChangelog } from './changelog';
+
+export type IssueLevel = 'error' | 'warning';
+
+export interface ValidationIssue {
+  level: IssueLevel;
+  code: string;
+  file: string;
+  path?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  adapters: string[];
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+interface RootCategory {
+  id: string;
+  name: string;
+}
+
+interface RootAdapterEntry {
+  slug: string;
+  name: string;
+  version: string;
+  category: string;
+  path: string;
+}
+
+interface RootManifest {
+  categories?: RootCategory[];
+  adapters?: RootAdapterEntry[];
+}
+
+interface AdapterJson {
+  slug?: string;
+  name?: string;
+  version?: string;
+  type?: string;
+  authentication?: AuthConfig;
+}
+
+/**
+ * Read and parse a JSON file, recording an issue instead of throwing
+ */
+function readJson<T>(file: string, rootDir: string, issues: ValidationIssue[]): T | undefined {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as T;
+  } catch (error) {
+    issues.push({
+      level: 'error',
+      code: 'invalid-json',
+      file: relative(rootDir, file),
+      message: `Could not parse JSON: ${(error as Error).message}`,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Compile a schema from the schemas/ directory
+ */
+function compileSchema(ajv: InstanceType<typeof Ajv2020>, rootDir: string, name: string): ValidateFunction {
+  const schema = JSON.parse(readFileSync(join(rootDir, 'schemas', name), 'utf8'));
+  return ajv.compile(schema);
+}
+
+/**
+ * Convert Ajv errors into validation issues
+ */
+function schemaIssues(file: string, errors: ErrorObject[] | null | undefined): ValidationIssue[] {
+  return (errors || []).map(error => ({
+    level: 'error' as const,
+    code: 'schema',
+    file,
+    path: error.instancePath || '/',
+    message: error.params && 'allowedValues' in error.params
+      ? `${error.message}: ${(error.params.allowedValues as unknown[]).join(', ')}`
+      : error.message || 'is invalid',
+  }));
+}
+
+/**
+ * List adapter directories under adapters/
+ */
+function listAdapterDirs(rootDir: string): string[] {
+  const adaptersDir = join(rootDir, 'adapters');
+  if (!existsSync(adaptersDir)) return [];
+
+  return readdirSync(adaptersDir)
+    .filter(entry => statSync(join(adaptersDir, entry)).isDirectory())
+    .sort();
+}
+
+/**
+ * Validate the whole registry rooted at rootDir
+ */
+export function validateRegistry(rootDir: string = process.cwd()): ValidationReport {
+  const issues: ValidationIssue[] = [];
+
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  addFormats(ajv);
+
+  const validateRoot = compileSchema(ajv, rootDir, 'manifest.schema.json');
+  const validateAdapter = compileSchema(ajv, rootDir, 'adapter.schema.json');
+  const validateManifest = compileSchema(ajv, rootDir, 'adapter-manifest.schema.json');
+  const validateOverrides = compileSchema(ajv, rootDir, 'overrides.schema.json');
+  const validateChanges = compileSchema(ajv, rootDir, 'changes.schema.json');
+  const validateIndex = compileSchema(ajv, rootDir, 'adapter-manifest-index.schema.json');
+  const validateShard = compileSchema(ajv, rootDir, 'adapter-manifest-shard.schema.json');
+
+  // Root manifest against its schema
+  const rootFile = 'manifest.json';
+  const root = readJson<RootManifest>(join(rootDir, rootFile), rootDir, issues);
+  if (root && !validateRoot(root)) {
+    issues.push(...schemaIssues(rootFile, validateRoot.errors));
+  }
+
+  // Every adapter.json and manifest.json against their schemas
+  const adapterDirs = listAdapterDirs(rootDir);
+  const adapters = new Map<string, AdapterJson>();
+
+  for (const dir of adapterDirs) {
+    const file = join('adapters', dir, 'adapter.json');
+    if (!existsSync(join(rootDir, file))) {
+      issues.push({ level: 'error', code: 'missing-file', file, message: 'Adapter directory has no adapter.json' });
+      continue;
+    }
+
+    const adapter = readJson<AdapterJson>(join(rootDir, file), rootDir, issues);
+    if (!adapter) continue;
+
+    if (!validateAdapter(adapter)) {
+      issues.push(...schemaIssues(file, validateAdapter.errors));
+    }
+    if (adapter.slug && adapter.slug !== dir) {
+      issues.push({
+        level: 'error',
+        code: 'slug-mismatch',
+        file,
+        path: '/slug',
+        message: `Slug "${adapter.slug}" does not match directory name "${dir}"`,
+      });
+    }
+    adapters.set(join('adapters', dir), adapter);
+
+    const adapterDir = join(rootDir, 'adapters', dir);
+    const layout = detectLayout(adapterDir);
+    if (!layout) {
+      issues.push({
+        level: 'error',
+        code: 'missing-file',
+        file: join('adapters', dir, MANIFEST_FILE),
+        message: `Adapter directory has no ${MANIFEST_FILE} or ${INDEX_FILE}`,
+      });
+      continue;
+    }
+
+    // Sharded manifests are checked file by file, then validated as the assembled manifest
+    const manifestFile = join('adapters', dir, layout === 'sharded' ? INDEX_FILE : MANIFEST_FILE);
+    const manifest = layout === 'sharded'
+      ? readShardedManifest(rootDir, join('adapters', dir), { validateIndex, validateShard }, issues)
+      : readJson<AdapterManifest>(join(rootDir, manifestFile), rootDir, issues);
+    if (!manifest) continue;
+
+    if (!validateManifest(manifest)) {
+      issues.push(...schemaIssues(manifestFile, validateManifest.errors));
+      continue;
+    }
+    issues.push(...manifestIssues(manifest, manifestFile));
+    issues.push(...webhookIssues(dir, manifest, manifestFile));
+
+    // Release history written by scripts/changelog.ts
+    const changesFile = join('adapters', dir, CHANGES_FILE);
+    const changes = existsSync(join(rootDir, changesFile))
+      ? readJson<AdapterChangelog>(join(rootDir, changesFile), rootDir, issues)
+      : undefined;
+    if (changes && !validateChanges(changes)) {
+      issues.push(...schemaIssues(changesFile, validateChanges.errors));
+    } else if (changes && changes.releases[0]?.version !== adapter.version) {
+      issues.push({
+        level: 'warning',
+        code: 'stale-changelog',
+        file: changesFile,
+        path: '/releases/0/version',
+        message: `Latest release is ${changes.releases[0]?.version ?? 'missing'} but adapter.json is at ${adapter.version}; run npm run changelog`,
+      });
+    }
+
+    // Optional hand-curated overrides applied by the generators
+    const overridesFile = join('adapters', dir, OVERRIDES_FILE);
+    if (!existsSync(join(rootDir, overridesFile))) continue;
+
+    const overrides = readJson<AdapterOverrides>(join(rootDir, overridesFile), rootDir, issues);
+    if (!overrides) continue;
+
+    if (!validateOverrides(overrides)) {
+      issues.push(...schemaIssues(overridesFile, validateOverrides.errors));
+      continue;
+    }
+    issues.push(...overrideIssues(overrides, manifest, overridesFile));
+  }
+
+  if (root) {
+    issues.push(...crossFileIssues(root, adapters, rootDir));
+  }
+
+  const errors = issues.filter(issue => issue.level === 'error').length;
+  return {
+    valid: errors === 0,
+    adapters: adapterDirs,
+    errors,
+    warnings: issues.length - errors,
+    issues,
+  };
+}
+
+/**
+ * Read a sharded manifest, checking the index and each shard against their
+ * schemas and against each other. Returns the assembled manifest when the
+ * files are consistent enough to join.
+ */
+function readShardedManifest(
+  rootDir: string,
+  adapterPath: string,
+  validators: { validateIndex: ValidateFunction; validateShard: ValidateFunction },
+  issues: ValidationIssue[]
+): AdapterManifest | undefined {
+  const indexFile = join(adapterPath, INDEX_FILE);
+  const index = readJson<ManifestIndex>(join(rootDir, indexFile), rootDir, issues);
+  if (!index) return undefined;
+
+  if (!validators.validateIndex(index)) {
+    issues.push(...schemaIssues(indexFile, validators.validateIndex.errors));
+    return undefined;
+  }
+
+  const present = listManifestFiles(join(rootDir, adapterPath));
+  if (present.includes(MANIFEST_FILE)) {
+    issues.push({
+      level: 'error',
+      code: 'ambiguous-layout',
+      file: join(adapterPath, MANIFEST_FILE),
+      message: `Both ${MANIFEST_FILE} and ${INDEX_FILE} exist; remove the stale one`,
+    });
+  }
+
+  const referenced = shardsOf(index);
+  for (const file of present.filter(file => file !== MANIFEST_FILE && file !== INDEX_FILE && !referenced.includes(file))) {
+    issues.push({ level: 'warning', code: 'orphan-shard', file: join(adapterPath, file), message: 'Shard is not referenced by the index' });
+  }
+
+  const shards: Record<string, ManifestShard> = {};
+  let consistent = true;
+  for (const shard of referenced) {
+    const file = join(adapterPath, shard);
+    if (!existsSync(join(rootDir, file))) {
+      issues.push({ level: 'error', code: 'missing-shard', file: indexFile, message: `Shard ${shard} does not exist` });
+      consistent = false;
+      continue;
+    }
+
+    const content = readJson<ManifestShard>(join(rootDir, file), rootDir, issues);
+    if (!content) {
+      consistent = false;
+      continue;
+    }
+    if (!validators.validateShard(content)) {
+      issues.push(...schemaIssues(file, validators.validateShard.errors));
+      consistent = false;
+      continue;
+    }
+
+    for (const name of unresolvedDefRefs(content)) {
+      issues.push({ level: 'error', code: 'unresolved-ref', file, message: `#/$defs/${name} is referenced but not defined` });
+    }
+
+    // Every entry in a shard must be indexed as living there
+    const indexed = new Set([
+      ...index.actions.filter(entry => entry.shard === shard).map(entry => `action:${entry.id}`),
+      ...index.triggers.filter(entry => entry.shard === shard).map(entry => `trigger:${entry.id}`),
+    ]);
+    const entries = [
+      ...(content.actions || []).map(action => ({ key: `action:${action.id}`, category: action.category })),
+      ...(content.triggers || []).map(trigger => ({ key: `trigger:${trigger.id}`, category: trigger.category })),
+    ];
+    for (const entry of entries) {
+      if (!indexed.has(entry.key)) {
+        issues.push({ level: 'error', code: 'shard-mismatch', file, message: `${entry.key.replace(':', ' "')}" is not in the index for this shard` });
+      }
+      if (content.category && entry.category !== content.category) {
+        issues.push({ level: 'error', code: 'shard-mismatch', file, message: `${entry.key.replace(':', ' "')}" has category "${entry.category}", not "${content.category}"` });
+      }
+    }
+    shards[shard] = content;
+  }
+
+  if (!consistent) return undefined;
+  try {
+    return assembleManifest(index, shards);
+  } catch (error) {
+    issues.push({ level: 'error', code: 'shard-mismatch', file: indexFile, message: (error as Error).message });
+    return undefined;
+  }
+}
+
+/**
+ * Override patches that no longer match anything in the manifest. Hidden
+ * entries are absent from the manifest by design, so only patches are checked.
+ */
+function overrideIssues(overrides: AdapterOverrides, manifest: AdapterManifest, file: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const collections = {
+    actions: [overrides.actions, manifest.actions],
+    triggers: [overrides.triggers, manifest.triggers],
+  } as const;
+
+  for (const [collection, [patches, entries]] of Object.entries(collections)) {
+    const ids = new Set(entries.map(entry => entry.id));
+    for (const [id, patch] of Object.entries(patches || {})) {
+      if (patch.hidden || ids.has(id)) continue;
+      issues.push({
+        level: 'warning',
+        code: 'stale-override',
+        file,
+        path: `/${collection}/${id}`,
+        message: `Override for ${collection.slice(0, -1)} "${id}" matches nothing in the manifest`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that span the root manifest and the adapter directories
+ */
+function crossFileIssues(
+  root: RootManifest,
+  adapters: Map<string, AdapterJson>,
+  rootDir: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const rootFile = 'manifest.json';
+
+  const categoryIds = new Set<string>();
+  (root.categories || []).forEach((category, index) => {
+    if (categoryIds.has(category.id)) {
+      issues.push({
+        level: 'error',
+        code: 'duplicate-category',
+        file: rootFile,
+        path: `/categories/${index}/id`,
+        message: `Category "${category.id}" is declared more than once`,
+      });
+    }
+    categoryIds.add(category.id);
+  });
+
+  const seenSlugs = new Set<string>();
+  const listedPaths = new Set<string>();
+
+  (root.adapters || []).forEach((entry, index) => {
+    const at = `/adapters/${index}`;
+
+    if (seenSlugs.has(entry.slug)) {
+      issues.push({
+        level: 'error',
+        code: 'duplicate-slug',
+        file: rootFile,
+        path: `${at}/slug`,
+        message: `Slug "${entry.slug}" is listed more than once`,
+      });
+    }
+    seenSlugs.add(entry.slug);
+
+    if (!categoryIds.has(entry.category)) {
+      issues.push({
+        level: 'error',
+        code: 'unknown-category',
+        file: rootFile,
+        path: `${at}/category`,
+        message: `Category "${entry.category}" is not declared in root categories`,
+      });
+    }
+
+    const adapterPath = relative(rootDir, resolve(rootDir, entry.path));
+    listedPaths.add(adapterPath);
+
+    if (!existsSync(join(rootDir, adapterPath))) {
+      issues.push({
+        level: 'error',
+        code: 'missing-path',
+        file: rootFile,
+        path: `${at}/path`,
+        message: `Path "${entry.path}" does not exist`,
+      });
+      return;
+    }
+
+    const adapter = adapters.get(adapterPath);
+    if (!adapter) return;
+
+    const compare: Array<[keyof RootAdapterEntry, keyof AdapterJson]> = [
+      ['slug', 'slug'],
+      ['name', 'name'],
+      ['version', 'version'],
+      ['category', 'type'],
+    ];
+    for (const [rootKey, adapterKey] of compare) {
+      if (adapter[adapterKey] !== entry[rootKey]) {
+        issues.push({
+          level: 'error',
+          code: `${rootKey}-mismatch`,
+          file: rootFile,
+          path: `${at}/${rootKey}`,
+          message: `${rootKey} "${entry[rootKey]}" does not match ${adapterPath}/adapter.json ${adapterKey} "${adapter[adapterKey]}"`,
+        });
+      }
+    }
+  });
+
+  for (const [adapterPath, adapter] of adapters) {
+    const file = join(adapterPath, 'adapter.json');
+
+    if (adapter.type && !categoryIds.has(adapter.type)) {
+      issues.push({
+        level: 'error',
+        code: 'unknown-category',
+        file,
+        path: '/type',
+        message: `Type "${adapter.type}" is not declared in root categories`,
+      });
+    }
+
+    if (!listedPaths.has(adapterPath)) {
+      issues.push({
+        level: 'warning',
+        code: 'unlisted-adapter',
+        file,
+        message: 'Adapter is not listed in the root manifest.json',
+      });
+    }
+
+    const auth = adapter.authentication;
+    if (auth?.type === 'api_key' && !auth.apiKey && !auth.signing) {
+      issues.push({
+        level: 'warning',
+        code: 'unplaced-api-key',
+        file,
+        path: '/authentication',
+        message: 'api_key authentication declares neither apiKey nor signing, so actions can\'t be executed',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks within a single adapter manifest that the schema cannot express
+ */
+function manifestIssues(manifest: AdapterManifest, file: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  const collections: Array<[string, Array<{ id?: string; name?: string }>, 'id' | 'name']> = [
+    ['actions', manifest.actions, 'id'],
+    ['triggers', manifest.triggers, 'id'],
+    ['mcp/tools', manifest.mcp?.tools || [], 'name'],
+  ];
+
+  for (const [collection, items, key] of collections) {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      const value = item[key] as string;
+      if (seen.has(value)) {
+        issues.push({
+          level: 'error',
+          code: 'duplicate-id',
+          file,
+          path: `/${collection}/${index}/${key}`,
+          message: `${key} "${value}" is used more than once in ${collection}`,
+        });
+      }
+      seen.add(value);
+    });
+  }
+
+  if (manifest.categories) {
+    const declared = new Map(manifest.categories.map(entry => [entry.id, entry]));
+    for (const actual of buildCategoryIndex(manifest.actions, manifest.triggers)) {
+      const entry = declared.get(actual.id);
+      if (!entry || entry.actions !== actual.actions || entry.triggers !== actual.triggers) {
+        issues.push({
+          level: 'error',
+          code: 'category-index',
+          file,
+          path: '/categories',
+          message: entry
+            ? `Category "${actual.id}" lists ${entry.actions} actions/${entry.triggers} triggers, found ${actual.actions}/${actual.triggers}`
+            : `Category "${actual.id}" is used but missing from the category index`,
+        });
+      }
+    }
+  }
+
+  const actionIds = new Set(manifest.actions.map(action => action.id));
+  (manifest.mcp?.tools || []).forEach((tool, index) => {
+    for (const [operation, id] of Object.entries(tool.actions || {})) {
+      if (!actionIds.has(id)) {
+        issues.push({
+          level: 'error',
+          code: 'unknown-tool-action',
+          file,
+          path: `/mcp/tools/${index}/actions/${operation}`,
+          message: `Tool "${tool.name}" runs action "${id}", which does not exist`,
+        });
+      }
+    }
+  });
+
+  manifest.actions.forEach((action, index) => {
+    const params = action.pagination ? [action.pagination.param, action.pagination.limitParam] : [];
+    for (const param of params) {
+      if (!param || action.configSchema.properties?.[param]) continue;
+      issues.push({
+        level: 'error',
+        code: 'unknown-pagination-param',
+        file,
+        path: `/actions/${index}/pagination`,
+        message: `Action "${action.id}" pages with "${param}", which is not in its configSchema`,
+      });
+    }
+  });
+
+  const triggerEvents = new Set(manifest.triggers.map(trigger => trigger.event));
+  for (const [extracted, event] of Object.entries(manifest.webhooks?.events?.eventMap || {})) {
+    if (triggerEvents.has(event)) continue;
+    issues.push({
+      level: 'error',
+      code: 'unknown-trigger-event',
+      file,
+      path: `/webhooks/events/eventMap/${extracted}`,
+      message: `"${extracted}" maps to "${event}", which no trigger listens for`,
+    });
+  }
+
+  const unroutable = manifest.actions.filter(action => !action.method || !action.endpoint).length;
+  if (unroutable > 0) {
+    issues.push({
+      level: 'warning',
+      code: 'missing-endpoint',
+      file,
+      path: '/actions',
+      message: `${unroutable} of ${manifest.actions.length} actions have no method/endpoint`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * The adapter's webhook test vectors that its webhooks block no longer verifies
+ */
+function webhookIssues(slug: string, manifest: AdapterManifest, file: string): ValidationIssue[] {
+  const vectors = WEBHOOK_TEST_VECTORS[slug];
+  if (!vectors || !manifest.webhooks?.supported) return [];
+
+  try {
+    return checkTestVectors(manifest.webhooks, vectors).map(message => ({
+      level: 'error' as const,
+      code: 'webhook-vector',
+      file,
+      path: '/webhooks',
+      message,
+    }));
+  } catch (error) {
+    return [{ level: 'error', code: 'webhook-vector', file, path: '/webhooks', message: (error as Error).message }];
+  }
+}
+
+/**
+ * Print a report for humans
+ */
+function printReport(report: ValidationReport): void {
+  for (const issue of report.issues) {
+    const icon = issue.level === 'error' ? '❌' : '⚠️ ';
+    const location = issue.path ? `${issue.file} ${issue.path}` : issue.file;
+    console.log(`${icon} ${location}: ${issue.message}`);
+  }
+
+  if (report.issues.length > 0) console.log('');
+
+  const summary = `${report.adapters.length} adapters, ${report.errors} errors, ${report.warnings} warnings`;
+  console.log(report.valid ? `✅ Registry is valid (${summary})` : `Registry is invalid (${summary})`);
+}
+
+async function main() {
+  const report = validateRegistry();
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  process.exit(report.valid ? 0 : 1);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
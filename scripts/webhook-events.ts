@@ -0,0 +1,142 @@
+/**
+ * Webhook Events
+ *
+ * Builds triggers from the events a spec declares:
+ *
+ * - the OpenAPI 3.1 `webhooks` section
+ * - schemas marked with Stripe's `x-stripeEvent` extension, whose `object`
+ *   property is the event's `data.object`
+ *
+ * Hand-kept event lists only filter what the spec declares. They are used as
+ * the event list itself only for specs that declare no events at all.
+ */
+
+import type { JSONSchema, TriggerDefinition } from './types';
+import type { OpenAPISpec, Schema } from './openapi-types';
+import type { SchemaResolver } from './schema-resolver';
+import type { FormattedDescription } from './description-formatter';
+import { toSnakeCase } from './action-ids';
+
+export interface EventFilter {
+  /** Only keep these events; entries the spec doesn't declare are reported */
+  allow?: string[];
+  /** Drop these events */
+  deny?: string[];
+}
+
+interface SpecEvent {
+  event: string;
+  description?: string;
+  summary?: string;
+  category?: string;
+  payloadSchema?: JSONSchema;
+}
+
+function eventName(event: string): string {
+  return event.replace(/\./g, ' ').replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Stripe event envelope around the converted `data.object` schema
+ */
+function stripeEventPayload(resolver: SchemaResolver, event: string, object: Schema | undefined): JSONSchema {
+  const scope = resolver.createScope();
+  return scope.finish({
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      object: { type: 'string', const: 'event' },
+      type: { type: 'string', const: event },
+      created: { type: 'integer' },
+      livemode: { type: 'boolean' },
+      data: {
+        type: 'object',
+        properties: {
+          object: scope.convert(object),
+          previous_attributes: { type: 'object' },
+        },
+        required: ['object'],
+      },
+    },
+    required: ['id', 'type', 'data'],
+  });
+}
+
+/**
+ * Events declared by the spec, in declaration order
+ */
+function specEvents(spec: OpenAPISpec, resolver: SchemaResolver): SpecEvent[] {
+  const events: SpecEvent[] = [];
+
+  for (const [event, webhook] of Object.entries(spec.webhooks || {})) {
+    const operation = webhook.post;
+    const requestBody = operation?.requestBody && resolver.deref(operation.requestBody);
+    const schema = requestBody?.content?.['application/json']?.schema;
+    events.push({
+      event,
+      summary: operation?.summary,
+      description: operation?.description,
+      payloadSchema: schema ? resolver.convert(schema) : undefined,
+    });
+  }
+
+  for (const schema of Object.values(spec.components?.schemas || {})) {
+    const event = schema['x-stripeEvent']?.type;
+    if (!event || events.some(existing => existing.event === event)) continue;
+
+    const object = schema.properties?.object;
+    const target = object && resolver.deref(object) as Schema;
+    events.push({
+      event,
+      description: schema.description,
+      category: target?.['x-stripeResource']?.in_package ? toSnakeCase(target['x-stripeResource'].in_package) : undefined,
+      payloadSchema: stripeEventPayload(resolver, event, object),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Generate triggers from the spec's events, filtered by an allow/deny list
+ */
+export function generateTriggers(
+  spec: OpenAPISpec,
+  resolver: SchemaResolver,
+  describe: (raw: string) => FormattedDescription,
+  filter: EventFilter = {}
+): TriggerDefinition[] {
+  let events = specEvents(spec, resolver);
+
+  if (events.length === 0) {
+    // Nothing declared in the spec: the allow list is the event list
+    events = (filter.allow || []).map(event => ({ event }));
+  } else if (filter.allow) {
+    const allowed = new Set(filter.allow);
+    const declared = new Set(events.map(event => event.event));
+    const undeclared = filter.allow.filter(event => !declared.has(event));
+    const excluded = events.filter(event => !allowed.has(event.event));
+
+    if (undeclared.length > 0) {
+      const shown = undeclared.slice(0, 10).join(', ') + (undeclared.length > 10 ? ', ...' : '');
+      console.warn(`  ⚠ ${undeclared.length} allowed events are not in the spec: ${shown}`);
+    }
+    if (excluded.length > 0) {
+      console.log(`  ${excluded.length} spec events not in the allow list were skipped`);
+    }
+    events = events.filter(event => allowed.has(event.event));
+  }
+
+  const denied = new Set(filter.deny || []);
+
+  return events
+    .filter(event => !denied.has(event.event))
+    .map(event => ({
+      id: toSnakeCase(event.event),
+      name: event.summary || eventName(event.event),
+      ...describe(event.description || event.summary || `Triggered on ${event.event}`),
+      event: event.event,
+      ...(event.category ? { category: event.category } : {}),
+      ...(event.payloadSchema ? { payloadSchema: event.payloadSchema } : {}),
+    }));
+}
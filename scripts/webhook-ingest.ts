@@ -0,0 +1,236 @@
+/**
+ * Webhook Ingest
+ *
+ * Turns an inbound webhook request into trigger events, per the adapter's
+ * `webhooks.events` block:
+ *
+ * - the body is decoded as JSON or form params, and split into events when
+ *   the provider batches them (SendGrid's array, Xero's `events`)
+ * - each event's name is matched to a trigger's `event`, directly or through
+ *   `eventMap`
+ * - each matched event becomes an envelope with when it happened and a key
+ *   for deduplicating redeliveries
+ *
+ * With a secret, the signature is verified first (see webhook-verifier.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/webhook-ingest.ts <slug> <body-file> [--header name:value]... [--url <url>] [--secret <secret>]
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { AdapterManifest, EventExtraction } from './types';
+import { readManifest } from './manifest-loader';
+import { headerValue, verifyWebhook, type ReplayStore, type WebhookDelivery } from './webhook-verifier';
+
+/**
+ * A trigger event ready to hand to Encompass
+ */
+export interface WebhookEnvelope {
+  triggerId: string;
+  event: string;
+  /** ISO 8601 */
+  occurredAt: string;
+  idempotencyKey: string;
+  payload: unknown;
+}
+
+export interface IngestResult {
+  envelopes: WebhookEnvelope[];
+  /** Events that matched no trigger, or whose name couldn't be extracted */
+  ignored: Array<{ event?: string; reason: string }>;
+}
+
+export interface IngestOptions {
+  /** Registry root holding adapters/ (default: cwd) */
+  registryDir?: string;
+  /** Verify the signature with this secret before ingesting */
+  secret?: string;
+  replayStore?: ReplayStore;
+  /** Current time in Unix seconds, for timestamp checks and deliveries with no event time */
+  now?: number;
+}
+
+/**
+ * The value at a dot-separated path; "$" is the value itself
+ */
+function valueAt(value: unknown, path: string): unknown {
+  if (path === '$') return value;
+  return path.split('.').reduce<unknown>(
+    (current, key) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  );
+}
+
+/**
+ * Fill `{path}` placeholders from the event; undefined when any of them
+ * isn't a string or number
+ */
+function fillTemplate(template: string, event: unknown): string | undefined {
+  let resolved = true;
+  const filled = template.replace(/\{([^}]+)\}/g, (_, path: string) => {
+    const value = valueAt(event, path);
+    if (typeof value === 'string' && value !== '' || typeof value === 'number') return String(value);
+    resolved = false;
+    return '';
+  });
+  return resolved ? filled : undefined;
+}
+
+function firstFilled(templates: string | string[] | undefined, event: unknown): string | undefined {
+  for (const template of Array.isArray(templates) ? templates : templates ? [templates] : []) {
+    const filled = fillTemplate(template, event);
+    if (filled !== undefined) return filled;
+  }
+  return undefined;
+}
+
+/**
+ * ISO 8601 time from an ISO or RFC 2822 date, or Unix seconds or milliseconds.
+ * Dates without an offset are UTC (Xero's `eventDateUtc`, Sumsub's `createdAtMs`).
+ */
+function toIsoTime(value: unknown): string | undefined {
+  const numeric = typeof value === 'number' ? value : typeof value === 'string' && /^\d+(\.\d+)?$/.test(value) ? Number(value) : undefined;
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}[T ][\d:.]+$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+  const time = numeric !== undefined
+    ? new Date(numeric > 1e12 ? numeric : numeric * 1000)
+    : typeof date === 'string' ? new Date(date) : undefined;
+  return time && !Number.isNaN(time.getTime()) ? time.toISOString() : undefined;
+}
+
+/**
+ * Form params as an object; repeated names become arrays
+ */
+function decodeForm(body: string): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {};
+  for (const [name, value] of new URLSearchParams(body)) {
+    const existing = params[name];
+    params[name] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+  return params;
+}
+
+function parseBody(extraction: EventExtraction, delivery: WebhookDelivery): unknown {
+  const contentType = headerValue(delivery.headers, 'content-type') || '';
+  const format = extraction.bodyFormat || (contentType.includes('application/x-www-form-urlencoded') ? 'form' : 'json');
+  if (format === 'form') return decodeForm(delivery.body);
+  try {
+    return JSON.parse(delivery.body);
+  } catch (error) {
+    throw new Error(`Webhook body is not JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Split a delivery into trigger envelopes; `deliveryId` is the provider's id
+ * for the whole delivery, if it sends one
+ */
+export function normalizeWebhook(
+  manifest: Pick<AdapterManifest, 'triggers' | 'webhooks'>,
+  delivery: WebhookDelivery,
+  options: { now?: number; deliveryId?: string } = {}
+): IngestResult {
+  const extraction = manifest.webhooks?.events;
+  if (!extraction) throw new Error('Webhooks block has no events extraction');
+
+  const body = parseBody(extraction, delivery);
+  const batch = extraction.batchPath ? valueAt(body, extraction.batchPath) : undefined;
+  if (extraction.batchPath && !Array.isArray(batch)) {
+    throw new Error(`Webhook body has no event array at ${extraction.batchPath}`);
+  }
+  const events = extraction.batchPath ? batch as unknown[] : [body];
+
+  const triggers = new Map(manifest.triggers.map(trigger => [trigger.event, trigger.id]));
+  const receivedAt = new Date((options.now ?? Date.now() / 1000) * 1000).toISOString();
+  const result: IngestResult = { envelopes: [], ignored: [] };
+
+  events.forEach((event, index) => {
+    const extracted = firstFilled(extraction.event, event);
+    if (extracted === undefined) {
+      result.ignored.push({ reason: 'No event name found' });
+      return;
+    }
+    const name = extraction.eventMap?.[extracted] ?? extracted;
+    const triggerId = triggers.get(name);
+    if (!triggerId) {
+      result.ignored.push({ event: name, reason: 'No trigger for this event' });
+      return;
+    }
+
+    // Without a key in the event, redeliveries are recognised by the delivery id or the event's content
+    const deliveryKey = options.deliveryId && (extraction.batchPath ? `${options.deliveryId}:${index}` : options.deliveryId);
+    const idempotencyKey = firstFilled(extraction.idempotencyKey, event)
+      ?? deliveryKey
+      ?? createHash('sha256').update(JSON.stringify(event)).digest('hex');
+
+    result.envelopes.push({
+      triggerId,
+      event: name,
+      occurredAt: (extraction.occurredAt && toIsoTime(valueAt(event, extraction.occurredAt))) || receivedAt,
+      idempotencyKey,
+      payload: extraction.payload ? valueAt(event, extraction.payload) : event,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Verify (when given a secret) and normalize a request to one of the
+ * registry's adapters. Rejected deliveries throw with the verifier's reason
+ * as `code`.
+ */
+export async function ingestWebhook(slug: string, delivery: WebhookDelivery, options: IngestOptions = {}): Promise<IngestResult> {
+  const manifest = readManifest(join(resolve(options.registryDir || '.'), 'adapters', slug));
+  if (!manifest) throw new Error(`Adapter "${slug}" has no manifest`);
+  if (!manifest.webhooks?.supported) throw new Error(`${slug} does not send webhooks`);
+
+  if (options.secret !== undefined) {
+    const verified = await verifyWebhook(manifest.webhooks, delivery, {
+      secret: options.secret,
+      now: options.now,
+      replayStore: options.replayStore,
+    });
+    if (!verified.valid) {
+      throw Object.assign(new Error(`${slug} webhook rejected: ${verified.message}`), { code: verified.reason });
+    }
+  }
+
+  return normalizeWebhook(manifest, delivery, {
+    now: options.now,
+    deliveryId: headerValue(delivery.headers, manifest.webhooks.idHeader),
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  const headers: Record<string, string> = {};
+  let url: string | undefined;
+  let secret: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--header') {
+      const [name, ...value] = args[++i].split(':');
+      headers[name.trim()] = value.join(':').trim();
+    } else if (args[i] === '--url') url = args[++i];
+    else if (args[i] === '--secret') secret = args[++i];
+    else positional.push(args[i]);
+  }
+
+  const [slug, bodyFile] = positional;
+  if (!slug || !bodyFile) {
+    console.error('Usage: npx tsx scripts/webhook-ingest.ts <slug> <body-file> [--header name:value]... [--url <url>] [--secret <secret>]');
+    process.exit(1);
+  }
+
+  const result = await ingestWebhook(slug, { headers, body: readFileSync(bodyFile, 'utf8'), url }, { secret });
+  console.log(JSON.stringify(result, null, 2));
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,147 @@
+/**
+ * Webhook Test Vectors
+ *
+ * Known deliveries for each adapter, checked against the adapter's `webhooks`
+ * block by validate.ts and webhook-verifier.ts. Signatures were computed
+ * outside the verifier (openssl), so a vector failing means the block or the
+ * verifier no longer matches how the provider signs. Resend's valid vector
+ * is the one published by Svix.
+ */
+
+import type { VerifyFailure } from './webhook-verifier';
+
+export interface WebhookTestVector {
+  description: string;
+  /** HMAC secret, or the public key for ecdsa */
+  secret: string;
+  headers: Record<string, string>;
+  body: string;
+  url?: string;
+  /** Unix seconds the delivery is checked at */
+  now: number;
+  expected: 'valid' | VerifyFailure;
+}
+
+const STRIPE_BODY = '{"id":"evt_1NG8Du2eZvKYlo2CUI79vXWy","object":"event","type":"customer.created"}';
+const STRIPE_SIGNATURE = 't=1700000000,v1=417353bb9b6abfb88d9fe516c5c3b964105258ffcad788da3ece8e1db687afa2';
+
+const SVIX_HEADERS = {
+  'svix-id': 'msg_p5jXN8AQM9LWM0D4loKWxJek',
+  'svix-timestamp': '1614265330',
+  'svix-signature': 'v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=',
+};
+
+const SENDGRID_PUBLIC_KEY = 'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEM2RR/6Gppx4nyNL1lT3ZZjZxM1zi41FxiWfKC/bkYoLhJmFj380j62PP8bBjE/AkwSfD1BLpmJKE3mhbkR/DhQ==';
+const SENDGRID_BODY = '[{"email":"user@example.com","event":"delivered","sg_event_id":"ZGVsaXZlcmVkLTAtMjQ","timestamp":1700000000}]';
+const SENDGRID_HEADERS = {
+  'x-twilio-email-event-webhook-signature': 'MEQCIAb2miIPQO2fFKP3ANzfWraoVtL7qg7TbogWpG1eoQ/XAiBEmqFWoL2WiVGFjEQwE4PPC2DZSYevN/QTkT3lL2rdFA==',
+  'x-twilio-email-event-webhook-timestamp': '1700000000',
+};
+
+export const WEBHOOK_TEST_VECTORS: Record<string, WebhookTestVector[]> = {
+  aircall: [
+    {
+      description: 'signed call.created event',
+      secret: 'aircall-webhook-token',
+      headers: { 'x-aircall-signature': '93dbc346c7ceef58e73aeda3dd4a917651bd2156dc917f784b8408da63bdd6ec' },
+      body: '{"resource":"call","event":"call.created","timestamp":1700000000,"token":"45XXYYZZa08","data":{"id":812}}',
+      now: 1700000000,
+      expected: 'valid',
+    },
+  ],
+  docusign: [
+    {
+      description: 'Connect HMAC of the body',
+      secret: 'docusign-connect-hmac-key',
+      headers: { 'x-docusign-signature-1': 'DIu4SK1nl3bLm3c8zOFQM2DxPcOlTbqfXvNTgMDCu48=' },
+      body: '{"event":"envelope-completed","apiVersion":"v2.1","data":{"envelopeId":"93be49ab-0000-0000-0000-000000000000"}}',
+      now: 1700000000,
+      expected: 'valid',
+    },
+  ],
+  resend: [
+    {
+      description: 'Svix reference delivery',
+      secret: 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw',
+      headers: SVIX_HEADERS,
+      body: '{"test": 2432232314}',
+      now: 1614265330,
+      expected: 'valid',
+    },
+    {
+      description: 'Svix reference delivery with a changed body',
+      secret: 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw',
+      headers: SVIX_HEADERS,
+      body: '{"test": 2432232315}',
+      now: 1614265330,
+      expected: 'invalid_signature',
+    },
+  ],
+  sendgrid: [
+    {
+      description: 'ECDSA-signed event batch',
+      secret: SENDGRID_PUBLIC_KEY,
+      headers: SENDGRID_HEADERS,
+      body: SENDGRID_BODY,
+      now: 1700000060,
+      expected: 'valid',
+    },
+    {
+      description: 'ECDSA-signed event batch with a changed timestamp',
+      secret: SENDGRID_PUBLIC_KEY,
+      headers: { ...SENDGRID_HEADERS, 'x-twilio-email-event-webhook-timestamp': '1700000001' },
+      body: SENDGRID_BODY,
+      now: 1700000060,
+      expected: 'invalid_signature',
+    },
+  ],
+  stripe: [
+    {
+      description: 'signed customer.created event',
+      secret: 'whsec_test_secret',
+      headers: { 'stripe-signature': STRIPE_SIGNATURE },
+      body: STRIPE_BODY,
+      now: 1700000100,
+      expected: 'valid',
+    },
+    {
+      description: 'signed event delivered outside the tolerance',
+      secret: 'whsec_test_secret',
+      headers: { 'stripe-signature': STRIPE_SIGNATURE },
+      body: STRIPE_BODY,
+      now: 1700000600,
+      expected: 'timestamp_out_of_range',
+    },
+  ],
+  sumsub: [
+    {
+      description: 'digest of an applicantReviewed event',
+      secret: 'sumsub-secret-key',
+      headers: { 'x-payload-digest': '111e50470b3b7bfae83665be0e688b794a583e7ec311d758bc93bc2bbdffb12c' },
+      body: '{"applicantId":"5cb56e8e0a975a35f333cb83","type":"applicantReviewed","reviewStatus":"completed"}',
+      now: 1700000000,
+      expected: 'valid',
+    },
+  ],
+  twilio: [
+    {
+      description: 'form-encoded voice callback signed with the URL and sorted params',
+      secret: '12345',
+      headers: { 'x-twilio-signature': 'vNe7KK2kJwCsxc9K3OLkkKB3qqI=' },
+      body: 'CallSid=CA1234567890ABCDE&Caller=%2B12349013030&Digits=1234&From=%2B12349013030&To=%2B18005551212',
+      url: 'https://example.com/myapp.php?foo=1&bar=2',
+      now: 1700000000,
+      expected: 'valid',
+    },
+  ],
+  xero: [
+    {
+      description: 'intent-to-receive check',
+      secret: 'xero-webhook-key',
+      headers: { 'x-xero-signature': 'Jk5oeRqkvxspr6ZqkjgzOcJkUe7yZPsZrwBHTeueGFc=' },
+      body: '{"events":[],"firstEventSequence":0,"lastEventSequence":0,"entropy":"S0m3r4Nd0mt3xt"}',
+      now: 1700000000,
+      expected: 'valid',
+    },
+  ],
+};
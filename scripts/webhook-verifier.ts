@@ -0,0 +1,341 @@
+/**
+ * Webhook Verifier
+ *
+ * Checks inbound webhook signatures against an adapter's `webhooks` block:
+ *
+ * - the signature is read from `signatureHeader` in `signatureFormat`
+ *   (the whole value, `t=…,v1=…` pairs or a `v1,<sig>` list)
+ * - the signed content is built from the `signedContent` recipe and signed
+ *   with the HMAC secret, or checked with the public key for ecdsa and rsa
+ * - deliveries with a timestamp outside `timestampTolerance` are rejected,
+ *   and with a replay store, deliveries already seen are too
+ *
+ * Known test vectors for each adapter live in webhook-vectors.ts and are
+ * checked by validate.ts and by this script.
+ *
+ * Usage:
+ *   npx tsx scripts/webhook-verifier.ts [slug...]    # check test vectors, all adapters by default
+ */
+
+import { createHmac, createPrivateKey, createPublicKey, sign, timingSafeEqual, verify, type KeyObject } from 'crypto';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import type { WebhookConfig } from './types';
+import { readManifest } from './manifest-loader';
+import { WEBHOOK_TEST_VECTORS, type WebhookTestVector } from './webhook-vectors';
+
+/**
+ * A delivery as received: headers in any case and the raw, unparsed body
+ */
+export interface WebhookDelivery {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+  /** Full URL the provider called, for recipes that sign it */
+  url?: string;
+}
+
+/**
+ * Remembers deliveries until they expire; `remember` returns false when the
+ * key was already seen
+ */
+export interface ReplayStore {
+  remember(key: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export interface VerifyOptions {
+  /** HMAC secret, or the public key (PEM or base64 DER) for ecdsa and rsa */
+  secret: string;
+  /** Current time in Unix seconds (default: the clock) */
+  now?: number;
+  /** Overrides the block's timestampTolerance */
+  tolerance?: number;
+  replayStore?: ReplayStore;
+}
+
+export type VerifyFailure = 'missing_signature' | 'missing_timestamp' | 'invalid_signature' | 'timestamp_out_of_range' | 'replayed';
+
+export type VerifyResult =
+  | { valid: true; timestamp?: number; id?: string }
+  | { valid: false; reason: VerifyFailure; message: string };
+
+const DEFAULT_TOLERANCE = 300;
+
+const HMAC_ALGORITHMS: Record<string, string> = {
+  'hmac-sha256': 'sha256',
+  'hmac-sha1': 'sha1',
+  'hmac-sha512': 'sha512',
+};
+
+/**
+ * Keeps seen keys in memory; enough for a single process
+ */
+export function createMemoryReplayStore(): ReplayStore {
+  const seen = new Map<string, number>();
+  return {
+    remember(key, expiresAt) {
+      const now = Date.now() / 1000;
+      for (const [entry, expiry] of seen) {
+        if (expiry < now) seen.delete(entry);
+      }
+      if (seen.has(key)) return false;
+      seen.set(key, expiresAt);
+      return true;
+    },
+  };
+}
+
+/**
+ * A header's value by name in any case; the first when it was sent twice
+ */
+export function headerValue(headers: WebhookDelivery['headers'], name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  const wanted = name.toLowerCase();
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === wanted);
+  const value = entry?.[1];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * A webhooks block with the defaults the verifier assumes filled in, so two
+ * blocks that verify deliveries the same way compare equal
+ */
+export function webhookRecipe(config: WebhookConfig): WebhookConfig {
+  const format = config.signatureFormat || { type: 'raw' };
+  const formatDefaults = format.type === 'pairs'
+    ? { separator: ',', signatureKey: 'v1', timestampKey: 't' }
+    : format.type === 'list' ? { separator: ' ' } : {};
+  return {
+    ...config,
+    signatureAlgorithm: config.signatureAlgorithm || 'hmac-sha256',
+    signatureEncoding: config.signatureEncoding || 'hex',
+    signatureFormat: { ...formatDefaults, ...format },
+    signedContent: config.signedContent || '{body}',
+    timestampTolerance: config.timestampTolerance ?? DEFAULT_TOLERANCE,
+    secretEncoding: config.secretEncoding || 'utf8',
+  };
+}
+
+/**
+ * Signatures and the timestamp carried by the signature header
+ */
+function parseSignatureHeader(config: WebhookConfig, value: string): { signatures: string[]; timestamp?: string } {
+  const format = config.signatureFormat || { type: 'raw' };
+  switch (format.type) {
+    case 'pairs': {
+      const pairs = value.split(format.separator ?? ',').map(pair => {
+        const index = pair.indexOf('=');
+        return index < 0 ? [pair.trim(), ''] : [pair.slice(0, index).trim(), pair.slice(index + 1).trim()];
+      });
+      return {
+        signatures: pairs.filter(([key]) => key === (format.signatureKey ?? 'v1')).map(([, signature]) => signature),
+        timestamp: pairs.find(([key]) => key === (format.timestampKey ?? 't'))?.[1],
+      };
+    }
+    case 'list':
+      return {
+        signatures: value.split(format.separator ?? ' ')
+          .map(entry => entry.trim().split(','))
+          .filter(([version]) => !format.signatureKey || version === format.signatureKey)
+          .map(([, signature]) => signature)
+          .filter(Boolean),
+      };
+    default: {
+      const signature = value.trim();
+      return { signatures: [format.prefix && signature.startsWith(format.prefix) ? signature.slice(format.prefix.length) : signature] };
+    }
+  }
+}
+
+/**
+ * Form params sorted by name, each name followed by its value
+ */
+function sortedParams(body: string): string {
+  const params = [...new URLSearchParams(body)];
+  params.sort(([a, aValue], [b, bValue]) => a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1);
+  return params.map(([name, value]) => `${name}${value}`).join('');
+}
+
+/**
+ * The string the provider signed, per the block's signedContent recipe
+ */
+export function signedContent(
+  config: WebhookConfig,
+  delivery: { body: string; url?: string; timestamp?: string; id?: string }
+): string {
+  return (config.signedContent || '{body}').replace(/\{(body|timestamp|id|url|params)\}/g, (_, field: string) => {
+    if (field === 'body') return delivery.body;
+    if (field === 'params') return sortedParams(delivery.body);
+    const value = delivery[field as 'url' | 'timestamp' | 'id'];
+    if (value === undefined) throw new Error(`Signed content needs the delivery ${field}`);
+    return value;
+  });
+}
+
+function hmacKey(config: WebhookConfig, secret: string): Buffer {
+  const key = config.secretPrefix && secret.startsWith(config.secretPrefix) ? secret.slice(config.secretPrefix.length) : secret;
+  return Buffer.from(key, config.secretEncoding === 'base64' ? 'base64' : 'utf8');
+}
+
+function asymmetricKey(secret: string, type: 'public' | 'private'): KeyObject {
+  if (secret.includes('-----BEGIN')) return type === 'public' ? createPublicKey(secret) : createPrivateKey(secret);
+  const key = Buffer.from(secret, 'base64');
+  return type === 'public'
+    ? createPublicKey({ key, format: 'der', type: 'spki' })
+    : createPrivateKey({ key, format: 'der', type: 'pkcs8' });
+}
+
+function signatureMatches(config: WebhookConfig, content: string, signature: string, secret: string): boolean {
+  const encoding = config.signatureEncoding || 'hex';
+  const received = Buffer.from(signature, encoding);
+  const algorithm = config.signatureAlgorithm || 'hmac-sha256';
+
+  if (algorithm === 'ecdsa' || algorithm === 'rsa-sha256') {
+    try {
+      return verify('sha256', Buffer.from(content), asymmetricKey(secret, 'public'), received);
+    } catch {
+      return false;
+    }
+  }
+
+  const expected = createHmac(HMAC_ALGORITHMS[algorithm], hmacKey(config, secret)).update(content).digest();
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Check a delivery's signature and timestamp, without replay protection.
+ * Failed checks are returned; a block that can't be verified (not supported,
+ * or no signature header) throws.
+ */
+export function verifySignature(config: WebhookConfig, delivery: WebhookDelivery, options: VerifyOptions): VerifyResult {
+  if (!config.supported) throw new Error('Webhooks are not supported by this adapter');
+  const id = headerValue(delivery.headers, config.idHeader);
+  if (config.signatureAlgorithm === 'none') return { valid: true, id };
+  if (!config.signatureHeader) throw new Error('Webhooks block has no signatureHeader');
+
+  const value = headerValue(delivery.headers, config.signatureHeader);
+  if (!value) return { valid: false, reason: 'missing_signature', message: `Missing ${config.signatureHeader} header` };
+  const parsed = parseSignatureHeader(config, value);
+  if (parsed.signatures.length === 0) {
+    return { valid: false, reason: 'missing_signature', message: `No signature in ${config.signatureHeader} header` };
+  }
+
+  const timestampText = parsed.timestamp ?? headerValue(delivery.headers, config.timestampHeader);
+  if (config.signedContent?.includes('{timestamp}') && timestampText === undefined) {
+    return { valid: false, reason: 'missing_timestamp', message: 'Missing delivery timestamp' };
+  }
+  if (config.signedContent?.includes('{id}') && id === undefined) {
+    return { valid: false, reason: 'missing_signature', message: `Missing ${config.idHeader} header` };
+  }
+
+  const content = signedContent(config, { body: delivery.body, url: delivery.url, timestamp: timestampText, id });
+  if (!parsed.signatures.some(signature => signatureMatches(config, content, signature, options.secret))) {
+    return { valid: false, reason: 'invalid_signature', message: 'Signature does not match' };
+  }
+
+  // Checked after the signature so an unsigned timestamp can't be trusted
+  if (timestampText === undefined) return { valid: true, id };
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.tolerance ?? config.timestampTolerance ?? DEFAULT_TOLERANCE;
+  const timestamp = Number(timestampText);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > tolerance) {
+    return { valid: false, reason: 'timestamp_out_of_range', message: `Timestamp ${timestampText} is more than ${tolerance}s from now` };
+  }
+  return { valid: true, timestamp, id };
+}
+
+/**
+ * Verify a delivery against an adapter's webhooks block: signature and
+ * timestamp, then replay protection when a store is given. Deliveries are
+ * keyed by their id header, or by their signature when the provider sends none.
+ */
+export async function verifyWebhook(config: WebhookConfig, delivery: WebhookDelivery, options: VerifyOptions): Promise<VerifyResult> {
+  const result = verifySignature(config, delivery, options);
+  if (!result.valid || !options.replayStore) return result;
+
+  const key = result.id ?? headerValue(delivery.headers, config.signatureHeader);
+  if (!key) return result;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.tolerance ?? config.timestampTolerance ?? DEFAULT_TOLERANCE;
+  const first = await options.replayStore.remember(`${config.signatureHeader}:${key}`, (result.timestamp ?? now) + tolerance);
+  if (!first) return { valid: false, reason: 'replayed', message: result.id ? `Delivery ${result.id} was already received` : 'Delivery was already received' };
+  return result;
+}
+
+/**
+ * Headers a provider would send for a delivery; `secret` is the HMAC secret,
+ * or the private key for ecdsa and rsa. Used to build test vectors and mock
+ * deliveries.
+ */
+export function signWebhook(
+  config: WebhookConfig,
+  delivery: { body: string; url?: string; timestamp?: number; id?: string },
+  secret: string
+): Record<string, string> {
+  if (!config.signatureHeader || config.signatureAlgorithm === 'none') return {};
+  const timestamp = delivery.timestamp === undefined ? undefined : String(delivery.timestamp);
+  const content = Buffer.from(signedContent(config, { ...delivery, timestamp }));
+  const encoding = config.signatureEncoding || 'hex';
+  const algorithm = config.signatureAlgorithm || 'hmac-sha256';
+
+  const signature = algorithm === 'ecdsa' || algorithm === 'rsa-sha256'
+    ? sign('sha256', content, asymmetricKey(secret, 'private')).toString(encoding)
+    : createHmac(HMAC_ALGORITHMS[algorithm], hmacKey(config, secret)).update(content).digest(encoding);
+
+  const format = config.signatureFormat || { type: 'raw' };
+  const headers: Record<string, string> = {};
+  if (format.type === 'pairs') {
+    headers[config.signatureHeader] = `${format.timestampKey ?? 't'}=${timestamp}${format.separator ?? ','}${format.signatureKey ?? 'v1'}=${signature}`;
+  } else if (format.type === 'list') {
+    headers[config.signatureHeader] = format.signatureKey ? `${format.signatureKey},${signature}` : signature;
+  } else {
+    headers[config.signatureHeader] = `${format.prefix || ''}${signature}`;
+  }
+  if (config.timestampHeader && timestamp !== undefined) headers[config.timestampHeader] = timestamp;
+  if (config.idHeader && delivery.id !== undefined) headers[config.idHeader] = delivery.id;
+  return headers;
+}
+
+/**
+ * Run test vectors against a webhooks block; returns a message per vector
+ * whose outcome differs from the expected one
+ */
+export function checkTestVectors(config: WebhookConfig, vectors: WebhookTestVector[]): string[] {
+  const failures: string[] = [];
+  for (const vector of vectors) {
+    const result = verifySignature(config, vector, { secret: vector.secret, now: vector.now });
+    const outcome = result.valid ? 'valid' : result.reason;
+    if (outcome !== vector.expected) failures.push(`${vector.description}: expected ${vector.expected}, got ${outcome}`);
+  }
+  return failures;
+}
+
+async function main() {
+  const adaptersDir = join(process.cwd(), 'adapters');
+  const requested = process.argv.slice(2);
+  const slugs = requested.length > 0
+    ? requested
+    : readdirSync(adaptersDir).filter(slug => existsSync(join(adaptersDir, slug, 'adapter.json'))).sort();
+
+  let failed = 0;
+  for (const slug of slugs) {
+    const webhooks = readManifest(join(adaptersDir, slug))?.webhooks;
+    const vectors = WEBHOOK_TEST_VECTORS[slug] || [];
+    if (!webhooks?.supported || vectors.length === 0) {
+      console.log(`- ${slug}: no webhook test vectors`);
+      continue;
+    }
+    const failures = checkTestVectors(webhooks, vectors);
+    failed += failures.length;
+    console.log(`${failures.length === 0 ? '✓' : '✗'} ${slug}: ${vectors.length - failures.length}/${vectors.length} vectors`);
+    for (const failure of failures) console.log(`    ${failure}`);
+  }
+
+  if (failed > 0) process.exit(1);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}